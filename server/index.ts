@@ -0,0 +1,23 @@
+import { createMemoryDatabase } from '../src/backend/memory'
+import { DEFAULT_ROOM_SERVER_PORT } from '../src/backend/wire'
+import { createRoomServer } from './room-server'
+import { persistToSqlite } from './sqlite'
+
+// PORT: where clients connect (default 8787).
+// ROOM_DB_FILE: SQLite file to keep rooms across restarts; memory only if unset.
+const port = Number(process.env.PORT ?? DEFAULT_ROOM_SERVER_PORT)
+const dbFile = process.env.ROOM_DB_FILE
+
+const db = createMemoryDatabase()
+if (dbFile) {
+  await persistToSqlite(db, dbFile)
+}
+
+const server = createRoomServer({ port, db })
+console.log(`Room server listening on ws://0.0.0.0:${port}${dbFile ? ` (saving to ${dbFile})` : ''}`)
+
+const shutdown = () => {
+  server.close().finally(() => process.exit(0))
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
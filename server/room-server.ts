@@ -0,0 +1,282 @@
+import { WebSocketServer, type WebSocket } from 'ws'
+import { localClock } from '../src/backend/clock'
+import type { MemoryDatabase } from '../src/backend/memory'
+import type { AuthUser, GameBackend, GameRealtime, QueryOptions, RealtimeMessage, Row } from '../src/backend/types'
+import type { ClientFrame, ServerFrame, TableMethod } from '../src/backend/wire'
+import { createRepository } from '../src/data/repository'
+import { createRoomAuthority, type RoomAuthority } from '../src/game/authority'
+import { GAME_EVENT } from '../src/game/protocol'
+import { createMemorySecrets } from '../src/game/secrets'
+import { createId } from '../src/lib/ids'
+
+// Writes clients may make directly, and only as themselves: see clientRow.
+// Everything else about a room (its phase, scores, round stats) is written by
+// the room authority running in here.
+const CLIENT_WRITES: Record<string, TableMethod[]> = {
+  gameRooms: ['create'],
+  roomPlayers: ['create'],
+  gameMessages: ['create'],
+  drawingStrokes: ['create', 'delete'],
+  wordCategories: ['create', 'update', 'delete'],
+  appFlags: ['create']
+}
+
+// What clients may publish on each channel family; on the drawing channel,
+// only the drawer may. The rest (room_update, round_end, correct_guess, secret
+// words, guess results) comes from the authority.
+const CLIENT_PUBLISHES: Record<string, string[] | '*'> = {
+  room: ['player_update'],
+  chat: ['new_message'],
+  drawing: '*',
+  authority: [GAME_EVENT]
+}
+
+// New player rows start from nothing: points only come from score events and
+// the authority says who draws. A client only ever adds itself.
+const newPlayerRow = (row: Row, userId: string) => ({ ...row, userId, score: 0, isDrawing: false, leftAt: null })
+
+// Anything shorter wasn't made by the guest sign-in.
+const MIN_TOKEN_LENGTH = 16
+
+const channelFamily = (channel: string) => channel.slice(0, channel.indexOf('_'))
+const channelRoom = (channel: string) => channel.slice(channel.indexOf('_') + 1)
+
+export interface RoomServer {
+  close(): Promise<void>
+}
+
+interface RoomServerOptions {
+  port: number
+  db: MemoryDatabase
+}
+
+/**
+ * Hosts the database, realtime channels and every room authority for games on
+ * a LAN. Clients connect with the `ws` backend and speak the frames in
+ * src/backend/wire.ts.
+ */
+export function createRoomServer({ port, db }: RoomServerOptions): RoomServer {
+  const subscribers = new Map<string, Set<(message: RealtimeMessage) => void>>()
+  const authorities = new Map<string, RoomAuthority>()
+  const secrets = createMemorySecrets()
+  const repo = createRepository(db)
+  // Each user id belongs to the token it was first seen with, so reconnecting
+  // works but claiming someone else's id doesn't. Kept in memory only.
+  const userTokens = new Map<string, string>()
+
+  const publishAs = (userId: string | undefined, channel: string, type: string, data: any) => {
+    const message: RealtimeMessage = { id: createId('msg'), type, data, timestamp: Date.now(), userId }
+    subscribers.get(channel)?.forEach(callback => callback(message))
+  }
+
+  const subscribe = (channel: string, callback: (message: RealtimeMessage) => void) => {
+    if (!subscribers.has(channel)) subscribers.set(channel, new Set())
+    subscribers.get(channel)!.add(callback)
+    return () => {
+      subscribers.get(channel)?.delete(callback)
+    }
+  }
+
+  // The backend the authorities see: the shared database and the in-process
+  // channels, so their messages reach every connected socket.
+  const realtime: GameRealtime = {
+    subscribe: async (channel, callback) => subscribe(channel, callback),
+    publish: async (channel, type, data) => publishAs(undefined, channel, type, data)
+  }
+  const backend: GameBackend = {
+    kind: 'ws',
+    authority: 'server',
+    db,
+    realtime,
+    auth: {
+      onAuthStateChanged: (callback) => {
+        callback({ user: null, isLoading: false })
+        return () => {}
+      },
+      login: () => {},
+      logout: () => {}
+    },
+    // This process is the clock every client syncs to.
+    clock: localClock
+  }
+
+  // Authorities start with the first client to look at a room and stop once
+  // nobody is connected to it. A restarted authority resumes from the database.
+  const watchers = new Map<string, number>()
+
+  const ensureAuthority = async (roomId: string) => {
+    if (authorities.has(roomId)) return
+    const room = await repo.rooms.get(roomId)
+    // Another socket may have started it while the room was loading.
+    if (!room || authorities.has(roomId)) return
+    authorities.set(roomId, createRoomAuthority({ backend, repo, roomId, secrets }))
+  }
+
+  const watch = async (roomId: string, delta: 1 | -1) => {
+    const count = (watchers.get(roomId) ?? 0) + delta
+    if (count > 0) {
+      watchers.set(roomId, count)
+      if (delta > 0) await ensureAuthority(roomId)
+      return
+    }
+    watchers.delete(roomId)
+    authorities.get(roomId)?.stop()
+    authorities.delete(roomId)
+  }
+
+  const wss = new WebSocketServer({ port })
+
+  wss.on('connection', (socket: WebSocket) => {
+    let user: AuthUser | null = null
+    const unsubscribers = new Map<string, () => void>()
+    // Frames from one socket are handled strictly in order.
+    let queue = Promise.resolve()
+
+    const send = (frame: ServerFrame) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(frame))
+    }
+
+    const canSubscribe = (channel: string) => {
+      switch (channelFamily(channel)) {
+        case 'room':
+        case 'chat':
+        case 'drawing':
+          return true
+        case 'player':
+          return channel.endsWith(`_${user!.id}`)
+        default:
+          return false
+      }
+    }
+
+    const assertDrawer = async (roomId: unknown) => {
+      const room = typeof roomId === 'string' ? await repo.rooms.get(roomId) : null
+      if (!room || room.currentDrawerId !== user!.id) throw new Error('Only the drawer may draw')
+    }
+
+    // A new row as the signed-in user may write it. Guesses, and chat only
+    // some players may see, are recorded by the authority alone.
+    const clientRow = async (table: string, row: Row): Promise<Row> => {
+      switch (table) {
+        case 'roomPlayers':
+          return newPlayerRow(row, user!.id)
+        case 'gameMessages':
+          if (row.isGuess || row.isCorrect || row.guessedOnly) throw new Error('Only the room authority records guesses')
+          return { ...row, userId: user!.id }
+        case 'drawingStrokes':
+          await assertDrawer(row.roomId)
+          return row
+        default:
+          return row
+      }
+    }
+
+    const write = async (table: string, method: TableMethod, args: unknown[]) => {
+      if (!CLIENT_WRITES[table]?.includes(method)) throw new Error(`Clients may not ${method} ${table}`)
+      const rows = db.table(table)
+      const id = String(args[0])
+      switch (method) {
+        case 'create':
+          return rows.create(await clientRow(table, args[0] as Row))
+        case 'update':
+          return rows.update(id, args[1] as Row)
+        case 'delete':
+          if (table === 'drawingStrokes') await assertDrawer((await rows.get(id))?.roomId)
+          return rows.delete(id)
+      }
+    }
+
+    // Messages go out under the sender's user id, which the authority trusts
+    // over anything in the payload.
+    const canPublish = (channel: string, type: string) => {
+      const allowed = CLIENT_PUBLISHES[channelFamily(channel)]
+      return !!allowed && (allowed === '*' || allowed.includes(type))
+    }
+
+    async function handle(frame: ClientFrame) {
+      if (frame.op === 'hello') {
+        if (user) throw new Error('Already signed in')
+        const { token } = frame
+        if (typeof token !== 'string' || token.length < MIN_TOKEN_LENGTH) throw new Error('Hello needs a token')
+        const id = String(frame.user?.id ?? '')
+        if (!id || (userTokens.get(id) ?? token) !== token) throw new Error(`Not allowed to sign in as ${id}`)
+        userTokens.set(id, token)
+        user = { ...frame.user, id }
+        return
+      }
+      if (!user) throw new Error('Say hello first')
+
+      switch (frame.op) {
+        case 'db':
+          if (frame.method === 'get') return db.table(frame.table).get(String(frame.args[0]))
+          if (frame.method === 'list') return db.table(frame.table).list(frame.args[0] as QueryOptions | undefined)
+          return write(frame.table, frame.method, frame.args)
+
+        case 'subscribe':
+          if (!canSubscribe(frame.channel)) throw new Error(`Not allowed to subscribe to ${frame.channel}`)
+          if (unsubscribers.has(frame.channel)) return
+          unsubscribers.set(frame.channel, subscribe(frame.channel, (message) => {
+            send({ op: 'message', channel: frame.channel, message })
+          }))
+          if (channelFamily(frame.channel) === 'room') await watch(channelRoom(frame.channel), 1)
+          return
+
+        case 'unsubscribe':
+          unsubscribers.get(frame.channel)?.()
+          if (unsubscribers.delete(frame.channel) && channelFamily(frame.channel) === 'room') {
+            await watch(channelRoom(frame.channel), -1)
+          }
+          return
+
+        case 'publish':
+          if (!canPublish(frame.channel, frame.type)) {
+            throw new Error(`Not allowed to publish ${frame.type} on ${frame.channel}`)
+          }
+          if (channelFamily(frame.channel) === 'drawing') await assertDrawer(channelRoom(frame.channel))
+          if (channelFamily(frame.channel) === 'authority') await ensureAuthority(channelRoom(frame.channel))
+          publishAs(user.id, frame.channel, frame.type, frame.data)
+          return
+      }
+    }
+
+    socket.on('message', (raw) => {
+      queue = queue.then(async () => {
+        let frame: ClientFrame
+        try {
+          frame = JSON.parse(raw.toString())
+        } catch {
+          return
+        }
+        const reqId = 'reqId' in frame ? frame.reqId : null
+        try {
+          const value = await handle(frame)
+          if (reqId !== null) send({ op: 'result', reqId, ok: true, value: value ?? null })
+        } catch (error) {
+          if (reqId !== null) send({ op: 'result', reqId, ok: false, error: (error as Error).message })
+        }
+      })
+    })
+
+    socket.on('close', () => {
+      queue = queue.then(async () => {
+        for (const [channel, unsubscribe] of unsubscribers) {
+          unsubscribe()
+          if (channelFamily(channel) === 'room') await watch(channelRoom(channel), -1)
+        }
+        unsubscribers.clear()
+      })
+    })
+
+    send({ op: 'welcome', serverTime: Date.now() })
+  })
+
+  return {
+    close: () =>
+      new Promise((resolve, reject) => {
+        authorities.forEach(authority => authority.stop())
+        authorities.clear()
+        wss.clients.forEach(client => client.terminate())
+        wss.close(error => (error ? reject(error) : resolve()))
+      })
+  }
+}
@@ -0,0 +1,28 @@
+import type { MemoryDatabase, Tables } from '../src/backend/memory'
+
+/**
+ * Keeps the server's in-memory database in a SQLite file: rows are loaded once
+ * at startup and every later change is written straight through. Each row is
+ * stored as JSON, so new columns never need a migration.
+ */
+export async function persistToSqlite(db: MemoryDatabase, file: string): Promise<void> {
+  // Optional dependency: only needed when a database file is configured.
+  const { default: Database } = await import('better-sqlite3')
+  const sqlite = new Database(file)
+  sqlite.pragma('journal_mode = WAL')
+  sqlite.exec('CREATE TABLE IF NOT EXISTS records (tbl TEXT NOT NULL, id TEXT NOT NULL, data TEXT NOT NULL, PRIMARY KEY (tbl, id))')
+
+  const tables: Tables = {}
+  const rows = sqlite.prepare('SELECT tbl, id, data FROM records').all() as { tbl: string; id: string; data: string }[]
+  for (const { tbl, id, data } of rows) {
+    (tables[tbl] ??= {})[id] = JSON.parse(data)
+  }
+  db.restore(tables)
+
+  const put = sqlite.prepare('INSERT OR REPLACE INTO records (tbl, id, data) VALUES (?, ?, ?)')
+  const remove = sqlite.prepare('DELETE FROM records WHERE tbl = ? AND id = ?')
+  db.onChange((change) => {
+    if (change.kind === 'put') put.run(change.table, change.row.id, JSON.stringify(change.row))
+    else remove.run(change.table, change.id)
+  })
+}
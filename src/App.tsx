@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { blink } from './blink/client'
+import { backend } from './backend'
 import { HomePage } from './components/HomePage'
 import { GameRoom } from './components/GameRoom'
 import { Loader2 } from 'lucide-react'
@@ -10,7 +10,7 @@ function App() {
   const [currentRoom, setCurrentRoom] = useState<string | null>(null)
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = backend.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
     })
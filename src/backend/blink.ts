@@ -0,0 +1,44 @@
+import { createClient } from '@blinkdotnew/sdk'
+import { createSyncedClock } from './clock'
+import type { GameBackend } from './types'
+
+export function createBlinkBackend(): GameBackend {
+  const blink = createClient({
+    projectId: 'skribbl-style-multiplayer-sketch-game-5b50lk76',
+    authRequired: true
+  })
+  // Blink stamps realtime messages on its servers, so they double as clock samples.
+  const clock = createSyncedClock()
+
+  return {
+    kind: 'blink',
+    authority: 'client',
+
+    db: {
+      table: (name) => blink.db.table(name)
+    },
+
+    realtime: {
+      subscribe: (channel, callback) =>
+        blink.realtime.subscribe(channel, (message) => {
+          clock.observe(message.timestamp)
+          callback(message)
+        }),
+      // Stamped with the sender, which is all the room authority goes by.
+      publish: async (channel, type, data) => {
+        await blink.realtime.publish(channel, type, data, { userId: blink.auth.currentUser()?.id })
+      }
+    },
+
+    auth: {
+      onAuthStateChanged: (callback) =>
+        blink.auth.onAuthStateChanged((state) => {
+          callback({ user: state.user, isLoading: state.isLoading })
+        }),
+      login: () => blink.auth.login(),
+      logout: () => blink.auth.logout()
+    },
+
+    clock
+  }
+}
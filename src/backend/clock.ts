@@ -0,0 +1,33 @@
+import type { BackendClock } from './types'
+
+// How many recent samples the offset estimate is drawn from.
+const SAMPLE_WINDOW = 20
+
+export interface SyncedClock extends BackendClock {
+  // Feed a timestamp the backend stamped on something this client just received.
+  observe(backendTime: number): void
+}
+
+/**
+ * Estimates the backend's clock from the timestamps on incoming messages.
+ * `backendTime - receivedAt` understates the true offset by the message's
+ * latency, so the largest recent sample is the closest to the truth.
+ */
+export function createSyncedClock(): SyncedClock {
+  const samples: number[] = []
+  let offset = 0
+
+  return {
+    now: () => Date.now() + offset,
+
+    observe(backendTime) {
+      if (!Number.isFinite(backendTime)) return
+      samples.push(backendTime - Date.now())
+      if (samples.length > SAMPLE_WINDOW) samples.shift()
+      offset = Math.max(...samples)
+    }
+  }
+}
+
+// For backends that share this machine's clock.
+export const localClock: BackendClock = { now: () => Date.now() }
@@ -0,0 +1,103 @@
+import type { AuthState, AuthUser, GameAuth } from './types'
+import { createId } from '../lib/ids'
+
+const GUEST_KEY = 'skribbl-guest-user'
+
+// A guest is a user plus a secret token. The room server ties the user id to
+// the first token it is shown, so nobody else can sign in as that guest.
+interface Guest {
+  user: AuthUser
+  token: string
+}
+
+function createToken(): string {
+  // getRandomValues, unlike randomUUID, also works over plain http on a LAN
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function saveGuest({ user, token }: Guest) {
+  try {
+    sessionStorage.setItem(GUEST_KEY, JSON.stringify({ ...user, token }))
+  } catch {
+    // Private mode: the guest simply won't survive a reload.
+  }
+}
+
+function loadGuest(): Guest | null {
+  try {
+    const stored = sessionStorage.getItem(GUEST_KEY)
+    if (!stored) return null
+    const { token, ...user } = JSON.parse(stored)
+    if (typeof token === 'string') return { user, token }
+    // Stored before guests had tokens
+    const guest = { user, token: createToken() }
+    saveGuest(guest)
+    return guest
+  } catch {
+    return null
+  }
+}
+
+function createGuest(): Guest {
+  const name = `guest-${Math.random().toString(36).slice(2, 6)}`
+  const guest = {
+    user: { id: createId('user'), email: `${name}@guest.local`, displayName: name },
+    token: createToken()
+  }
+  saveGuest(guest)
+  return guest
+}
+
+function clearGuest() {
+  try {
+    sessionStorage.removeItem(GUEST_KEY)
+  } catch {
+    // Nothing stored.
+  }
+}
+
+export interface GuestAuth extends GameAuth {
+  currentUser(): AuthUser | null
+  // Proves to the room server that this tab is currentUser().
+  currentToken(): string | null
+}
+
+/**
+ * Sign-in for backends without accounts. Each tab is its own guest (kept in
+ * sessionStorage), so opening several tabs gives several players.
+ */
+export function createGuestAuth(): GuestAuth {
+  let guest: Guest | null = loadGuest() ?? createGuest()
+  let state: AuthState = { user: guest.user, isLoading: false }
+  const listeners = new Set<(state: AuthState) => void>()
+  const setState = (next: AuthState) => {
+    state = next
+    listeners.forEach(listener => listener(next))
+  }
+
+  return {
+    currentUser: () => state.user,
+
+    currentToken: () => guest?.token ?? null,
+
+    onAuthStateChanged(callback) {
+      listeners.add(callback)
+      callback(state)
+      return () => {
+        listeners.delete(callback)
+      }
+    },
+
+    login: () => {
+      guest ??= createGuest()
+      setState({ user: guest.user, isLoading: false })
+    },
+
+    logout: () => {
+      clearGuest()
+      guest = null
+      setState({ user: null, isLoading: false })
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { createBlinkBackend } from './blink'
+import { createMemoryBackend } from './memory'
+import { createWebSocketBackend } from './ws'
+import { DEFAULT_ROOM_SERVER_PORT } from './wire'
+import type { BackendKind, GameBackend } from './types'
+
+// Picked once at startup: `?backend=memory` in the URL wins over
+// VITE_GAME_BACKEND, and the hosted Blink backend is the default.
+function selectBackendKind(): BackendKind {
+  const fromUrl = new URLSearchParams(window.location.search).get('backend')
+  const requested = fromUrl ?? import.meta.env.VITE_GAME_BACKEND
+  return requested === 'memory' || requested === 'ws' ? requested : 'blink'
+}
+
+// Without VITE_ROOM_SERVER_URL the room server is assumed to run on the same
+// machine that serves the app, which is the usual LAN setup.
+function roomServerUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return import.meta.env.VITE_ROOM_SERVER_URL ??
+    `${protocol}//${window.location.hostname}:${DEFAULT_ROOM_SERVER_PORT}`
+}
+
+function createBackend(kind: BackendKind): GameBackend {
+  switch (kind) {
+    case 'memory':
+      return createMemoryBackend()
+    case 'ws':
+      return createWebSocketBackend(roomServerUrl())
+    case 'blink':
+      return createBlinkBackend()
+  }
+}
+
+export const backend = createBackend(selectBackendKind())
+
+export type * from './types'
@@ -0,0 +1,255 @@
+import type {
+  GameBackend,
+  GameDatabase,
+  GameRealtime,
+  QueryOptions,
+  RealtimeMessage,
+  Row,
+  Table
+} from './types'
+import { createId } from '../lib/ids'
+import { localClock } from './clock'
+import { createGuestAuth } from './guest'
+
+// Everything lives in this tab's memory. Tabs on the same origin keep each
+// other in sync over a BroadcastChannel: writes and realtime messages are
+// forwarded, and a freshly opened tab asks its peers for a snapshot.
+const SYNC_CHANNEL = 'skribbl-memory-backend'
+const SNAPSHOT_WAIT_MS = 200
+
+export type Tables = Record<string, Record<string, Row>>
+
+export type TableChange =
+  | { kind: 'put'; table: string; row: Row }
+  | { kind: 'delete'; table: string; id: string }
+
+type SyncMessage =
+  | TableChange
+  | { kind: 'snapshot_request' }
+  | { kind: 'snapshot'; tables: Tables }
+  | { kind: 'realtime'; channel: string; message: RealtimeMessage }
+
+export interface MemoryDatabase extends GameDatabase {
+  snapshot(): Tables
+  restore(tables: Tables): void
+  applyRemote(change: TableChange): void
+  onChange(listener: (change: TableChange) => void): () => void
+}
+
+const equals = (a: unknown, b: unknown) =>
+  a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b))
+
+const compare = (a: unknown, b: unknown) => {
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b)
+  return String(a ?? '').localeCompare(String(b ?? ''))
+}
+
+function matchesValue(value: unknown, condition: any): boolean {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return equals(value, condition)
+  }
+
+  return Object.entries(condition).every(([op, operand]: [string, any]) => {
+    switch (op) {
+      case 'eq': return equals(value, operand)
+      case 'neq': return !equals(value, operand)
+      case 'gt': return compare(value, operand) > 0
+      case 'gte': return compare(value, operand) >= 0
+      case 'lt': return compare(value, operand) < 0
+      case 'lte': return compare(value, operand) <= 0
+      case 'in': return (operand as unknown[]).some(item => equals(value, item))
+      case 'not_in': return !(operand as unknown[]).some(item => equals(value, item))
+      case 'is': return operand === null ? value === null || value === undefined : Boolean(value) === operand
+      default: return false
+    }
+  })
+}
+
+export function matchesWhere(row: Row, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return (condition as Record<string, any>[]).every(c => matchesWhere(row, c))
+    if (key === 'OR') return (condition as Record<string, any>[]).some(c => matchesWhere(row, c))
+    return matchesValue(row[key], condition)
+  })
+}
+
+function applyQuery(rows: Row[], options: QueryOptions = {}): Row[] {
+  let result = options.where ? rows.filter(row => matchesWhere(row, options.where!)) : rows
+
+  if (options.orderBy) {
+    const order = Object.entries(options.orderBy)
+    result = [...result].sort((a, b) => {
+      for (const [field, direction] of order) {
+        const diff = compare(a[field], b[field])
+        if (diff !== 0) return direction === 'desc' ? -diff : diff
+      }
+      return 0
+    })
+  }
+
+  return options.limit !== undefined ? result.slice(0, options.limit) : result
+}
+
+export function createMemoryDatabase(options: { ready?: Promise<void> } = {}): MemoryDatabase {
+  const tables: Tables = {}
+  const listeners = new Set<(change: TableChange) => void>()
+
+  const rowsOf = (name: string) => (tables[name] ??= {})
+  const emit = (change: TableChange) => listeners.forEach(listener => listener(change))
+  const ready = () => options.ready ?? Promise.resolve()
+
+  const table = (name: string): Table => ({
+    async create(data) {
+      await ready()
+      const rows = rowsOf(name)
+      const row = { ...data, id: data.id ?? createId(name) }
+      if (rows[row.id]) throw new Error(`Duplicate id "${row.id}" in ${name}`)
+      rows[row.id] = row
+      emit({ kind: 'put', table: name, row })
+      return { ...row }
+    },
+
+    async get(id) {
+      await ready()
+      const row = rowsOf(name)[id]
+      return row ? { ...row } : null
+    },
+
+    async list(query) {
+      await ready()
+      return applyQuery(Object.values(rowsOf(name)), query).map(row => ({ ...row }))
+    },
+
+    async update(id, data) {
+      await ready()
+      const rows = rowsOf(name)
+      if (!rows[id]) throw new Error(`No row "${id}" in ${name}`)
+      const row = { ...rows[id], ...data, id }
+      rows[id] = row
+      emit({ kind: 'put', table: name, row })
+      return { ...row }
+    },
+
+    async delete(id) {
+      await ready()
+      const rows = rowsOf(name)
+      if (!rows[id]) return
+      delete rows[id]
+      emit({ kind: 'delete', table: name, id })
+    }
+  })
+
+  return {
+    table,
+
+    snapshot: () => JSON.parse(JSON.stringify(tables)),
+
+    restore(snapshot) {
+      for (const [name, rows] of Object.entries(snapshot)) {
+        Object.assign(rowsOf(name), rows)
+      }
+    },
+
+    applyRemote(change) {
+      if (change.kind === 'put') {
+        rowsOf(change.table)[change.row.id] = change.row
+      } else {
+        delete rowsOf(change.table)[change.id]
+      }
+    },
+
+    onChange(listener) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    }
+  }
+}
+
+/**
+ * Offline backend for local play and development. Combined with guest sign-in,
+ * opening several tabs gives several players.
+ */
+export function createMemoryBackend(): GameBackend {
+  const sync = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL) : null
+  const post = (message: SyncMessage) => sync?.postMessage(message)
+
+  let synced = !sync
+  let markSynced = () => {}
+  const ready = new Promise<void>((resolve) => {
+    markSynced = () => {
+      synced = true
+      resolve()
+    }
+  })
+  if (synced) markSynced()
+
+  const db = createMemoryDatabase({ ready })
+  db.onChange(post)
+
+  const subscribers = new Map<string, Set<(message: RealtimeMessage) => void>>()
+  const deliver = (channel: string, message: RealtimeMessage) => {
+    subscribers.get(channel)?.forEach(callback => callback(message))
+  }
+
+  const auth = createGuestAuth()
+
+  if (sync) {
+    sync.onmessage = (event: MessageEvent<SyncMessage>) => {
+      const message = event.data
+      switch (message.kind) {
+        case 'put':
+        case 'delete':
+          db.applyRemote(message)
+          break
+        case 'snapshot_request':
+          if (synced) post({ kind: 'snapshot', tables: db.snapshot() })
+          break
+        case 'snapshot':
+          if (!synced) {
+            db.restore(message.tables)
+            markSynced()
+          }
+          break
+        case 'realtime':
+          deliver(message.channel, message.message)
+          break
+      }
+    }
+    post({ kind: 'snapshot_request' })
+    // Nobody answering means this is the first tab.
+    setTimeout(markSynced, SNAPSHOT_WAIT_MS)
+  }
+
+  const realtime: GameRealtime = {
+    async subscribe(channel, callback) {
+      if (!subscribers.has(channel)) subscribers.set(channel, new Set())
+      subscribers.get(channel)!.add(callback)
+      return () => {
+        subscribers.get(channel)?.delete(callback)
+      }
+    },
+
+    async publish(channel, type, data) {
+      const message: RealtimeMessage = {
+        id: createId('msg'),
+        type,
+        data,
+        timestamp: Date.now(),
+        userId: auth.currentUser()?.id
+      }
+      post({ kind: 'realtime', channel, message })
+      // Deliver to this tab asynchronously, like a round trip through a server would.
+      setTimeout(() => deliver(channel, message), 0)
+    }
+  }
+
+  return {
+    kind: 'memory',
+    authority: 'client',
+    db,
+    realtime,
+    auth,
+    // Every tab runs on this machine.
+    clock: localClock
+  }
+}
@@ -0,0 +1,71 @@
+// The three services the game needs from whatever is hosting it. Components
+// never talk to a concrete SDK; they go through the backend chosen at startup.
+
+export type Row = Record<string, any>
+
+export interface QueryOptions {
+  where?: Record<string, any>
+  orderBy?: Record<string, 'asc' | 'desc'>
+  limit?: number
+}
+
+export interface Table {
+  create(data: Row): Promise<Row>
+  get(id: string): Promise<Row | null>
+  list(options?: QueryOptions): Promise<Row[]>
+  update(id: string, data: Row): Promise<Row>
+  delete(id: string): Promise<void>
+}
+
+export interface GameDatabase {
+  table(name: string): Table
+}
+
+export interface RealtimeMessage {
+  id: string
+  type: string
+  data: any
+  timestamp: number
+  userId?: string
+}
+
+export interface GameRealtime {
+  subscribe(channel: string, callback: (message: RealtimeMessage) => void): Promise<() => void>
+  publish(channel: string, type: string, data: any): Promise<void>
+}
+
+export interface AuthUser {
+  id: string
+  email: string
+  displayName?: string
+}
+
+export interface AuthState {
+  user: AuthUser | null
+  isLoading: boolean
+}
+
+export interface GameAuth {
+  onAuthStateChanged(callback: (state: AuthState) => void): () => void
+  login(): void
+  logout(): void
+}
+
+// The backend's idea of "now", in epoch milliseconds. Deadlines stored in rooms
+// are in this time, so every client counts down to the same instant.
+export interface BackendClock {
+  now(): number
+}
+
+export type BackendKind = 'blink' | 'memory' | 'ws'
+
+export interface GameBackend {
+  kind: BackendKind
+  // Where the room authority runs: on the host's client, or inside a room
+  // server that clients only send intents to.
+  authority: 'client' | 'server'
+  db: GameDatabase
+  realtime: GameRealtime
+  auth: GameAuth
+  clock: BackendClock
+}
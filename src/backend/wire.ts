@@ -0,0 +1,22 @@
+import type { AuthUser, RealtimeMessage, Table } from './types'
+
+// Frames exchanged between the `ws` backend and the room server in server/.
+// Every frame is one JSON object; requests carry a reqId that their result echoes.
+
+export type TableMethod = keyof Table
+
+export type ClientFrame =
+  // Sent once, first. The token must match the one the user id was first seen with.
+  | { op: 'hello'; user: AuthUser; token: string }
+  | { op: 'db'; reqId: number; table: string; method: TableMethod; args: unknown[] }
+  | { op: 'subscribe'; reqId: number; channel: string }
+  | { op: 'unsubscribe'; channel: string }
+  | { op: 'publish'; reqId: number; channel: string; type: string; data: any }
+
+export type ServerFrame =
+  | { op: 'welcome'; serverTime: number }
+  | { op: 'result'; reqId: number; ok: true; value: unknown }
+  | { op: 'result'; reqId: number; ok: false; error: string }
+  | { op: 'message'; channel: string; message: RealtimeMessage }
+
+export const DEFAULT_ROOM_SERVER_PORT = 8787
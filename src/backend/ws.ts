@@ -0,0 +1,149 @@
+import type {
+  GameBackend,
+  GameDatabase,
+  GameRealtime,
+  RealtimeMessage,
+  Table
+} from './types'
+import type { ClientFrame, ServerFrame, TableMethod } from './wire'
+import { createSyncedClock } from './clock'
+import { createGuestAuth } from './guest'
+
+const RECONNECT_MS = 1000
+
+type WithoutReqId<T> = T extends { reqId: number } ? Omit<T, 'reqId'> : never
+type RequestBody = WithoutReqId<ClientFrame>
+
+interface Pending {
+  resolve: (value: any) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Client for the self-hosted room server (see server/). The server owns the
+ * database and runs every room authority, so this tab only reads, writes its
+ * own rows and sends intents. Sign-in is the same per-tab guest as `memory`.
+ */
+export function createWebSocketBackend(url: string): GameBackend {
+  const auth = createGuestAuth()
+  const clock = createSyncedClock()
+  const pending = new Map<number, Pending>()
+  const subscribers = new Map<string, Set<(message: RealtimeMessage) => void>>()
+  let outbox: ClientFrame[] = []
+  let socket: WebSocket | null = null
+  let nextReqId = 1
+
+  const send = (frame: ClientFrame) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame))
+    else outbox.push(frame)
+  }
+
+  const request = (body: RequestBody) =>
+    new Promise<any>((resolve, reject) => {
+      const reqId = nextReqId++
+      pending.set(reqId, { resolve, reject })
+      send({ ...body, reqId } as ClientFrame)
+    })
+
+  const handleFrame = (frame: ServerFrame) => {
+    switch (frame.op) {
+      case 'result': {
+        const waiting = pending.get(frame.reqId)
+        pending.delete(frame.reqId)
+        if (frame.ok) waiting?.resolve(frame.value)
+        else waiting?.reject(new Error(frame.error))
+        break
+      }
+      case 'message':
+        clock.observe(frame.message.timestamp)
+        subscribers.get(frame.channel)?.forEach(callback => callback(frame.message))
+        break
+      case 'welcome':
+        clock.observe(frame.serverTime)
+        break
+    }
+  }
+
+  const connect = () => {
+    const ws = new WebSocket(url)
+    socket = ws
+
+    ws.onopen = () => {
+      const user = auth.currentUser()
+      const token = auth.currentToken()
+      if (user && token) ws.send(JSON.stringify({ op: 'hello', user, token } satisfies ClientFrame))
+      // The server forgets subscriptions with the connection, so they are
+      // replayed before anything that was queued while offline.
+      for (const channel of subscribers.keys()) {
+        ws.send(JSON.stringify({ op: 'subscribe', reqId: nextReqId++, channel } satisfies ClientFrame))
+      }
+      const queued = outbox
+      outbox = []
+      queued.forEach(frame => ws.send(JSON.stringify(frame)))
+    }
+
+    ws.onmessage = (event: MessageEvent<string>) => {
+      try {
+        handleFrame(JSON.parse(event.data))
+      } catch (error) {
+        console.error('Bad frame from room server:', error)
+      }
+    }
+
+    ws.onclose = () => {
+      // Requests in flight may or may not have been applied; callers decide
+      // whether to retry.
+      pending.forEach(({ reject }) => reject(new Error('Lost connection to the room server')))
+      pending.clear()
+      socket = null
+      setTimeout(connect, RECONNECT_MS)
+    }
+  }
+
+  connect()
+
+  const call = (table: string, method: TableMethod, ...args: unknown[]) =>
+    request({ op: 'db', table, method, args })
+
+  const db: GameDatabase = {
+    table: (name): Table => ({
+      create: (data) => call(name, 'create', data),
+      get: (id) => call(name, 'get', id),
+      list: (options) => call(name, 'list', options),
+      update: (id, data) => call(name, 'update', id, data),
+      delete: (id) => call(name, 'delete', id)
+    })
+  }
+
+  const realtime: GameRealtime = {
+    async subscribe(channel, callback) {
+      if (!subscribers.has(channel)) {
+        subscribers.set(channel, new Set())
+        await request({ op: 'subscribe', channel }).catch((error) => {
+          subscribers.delete(channel)
+          throw error
+        })
+      }
+      subscribers.get(channel)!.add(callback)
+      return () => {
+        const callbacks = subscribers.get(channel)
+        if (!callbacks?.delete(callback) || callbacks.size > 0) return
+        subscribers.delete(channel)
+        send({ op: 'unsubscribe', channel })
+      }
+    },
+
+    async publish(channel, type, data) {
+      await request({ op: 'publish', channel, type, data })
+    }
+  }
+
+  return {
+    kind: 'ws',
+    authority: 'server',
+    db,
+    realtime,
+    auth,
+    clock
+  }
+}
@@ -1,6 +0,0 @@
-import { createClient } from '@blinkdotnew/sdk'
-
-export const blink = createClient({
-  projectId: 'skribbl-style-multiplayer-sketch-game-5b50lk76',
-  authRequired: true
-})
\ No newline at end of file
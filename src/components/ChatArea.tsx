@@ -1,40 +1,48 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { blink } from '../blink/client'
+import { backend } from '../backend'
+import { repo } from '../data'
+import { createId } from '../lib/ids'
+import { letterCount, revealedCount } from '../game/hints'
+import { listenPrivately, replyKey } from '../game/private-messages'
+import {
+  chatChannel,
+  sendGuess,
+  type GuessResultPayload,
+  type GuessedMessagePayload
+} from '../game/protocol'
+import type { GameMessage, GameState } from '../types/game'
 import { Card } from './ui/card'
 import { Input } from './ui/input'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-import { Send, MessageCircle, CheckCircle, Trophy } from 'lucide-react'
+import { Send, MessageCircle, CheckCircle, Trophy, EyeOff } from 'lucide-react'
 import { toast } from 'sonner'
 
 interface ChatAreaProps {
   roomId: string
-  currentWord: string | null
+  round: number
+  wordMask: string | null
   isDrawer: boolean
-  gameState: 'waiting' | 'playing' | 'finished'
-  onCorrectGuess: (playerId: string, points: number) => void
+  gameState: GameState
+  guessKey: string | null
 }
 
-interface GameMessage {
-  id: string
-  roomId: string
-  userId: string
-  displayName: string
-  message: string
-  isGuess: boolean
-  isCorrect: boolean
-  createdAt: string
-}
-
-export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGuess }: ChatAreaProps) {
+export function ChatArea({ roomId, round, wordMask, isDrawer, gameState, guessKey }: ChatAreaProps) {
   const [messages, setMessages] = useState<GameMessage[]>([])
+  // Our own near misses. The authority keeps them out of the shared chat, so
+  // they only ever exist on this client.
+  const [closeGuesses, setCloseGuesses] = useState<GameMessage[]>([])
+  // Guessed-only chat relayed to us during the round. The same messages show
+  // up in the shared chat once the round is over.
+  const [guessedChat, setGuessedChat] = useState<GameMessage[]>([])
+  const [guessedRound, setGuessedRound] = useState(0)
   const [newMessage, setNewMessage] = useState('')
   const [user, setUser] = useState<any>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const realtimeChannelRef = useRef<any>(null)
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = backend.auth.onAuthStateChanged((state) => {
       setUser(state.user)
     })
     return unsubscribe
@@ -42,13 +50,9 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
 
   const loadMessages = useCallback(async () => {
     try {
-      const messagesData = await blink.db.gameMessages.list({
-        where: { roomId },
-        orderBy: { createdAt: 'asc' },
-        limit: 50
-      })
+      const messagesData = await repo.messages.listByRoom(roomId)
       
-      setMessages(messagesData as GameMessage[])
+      setMessages(messagesData)
     } catch (error) {
       console.error('Error loading messages:', error)
     }
@@ -64,7 +68,7 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
 
     const setupRealtime = async () => {
       try {
-        const unsubscribe = await blink.realtime.subscribe(`chat_${roomId}`, (message) => {
+        const unsubscribe = await backend.realtime.subscribe(chatChannel(roomId), (message) => {
           if (message.type === 'new_message') {
             loadMessages()
           } else if (message.type === 'correct_guess') {
@@ -92,79 +96,93 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
     }
   }, [roomId, loadMessages])
 
+  // Verdicts on our own guesses arrive privately from the room authority
   useEffect(() => {
-    scrollToBottom()
-  }, [messages])
+    if (!roomId || !user?.id) return
 
-  const calculatePoints = (timeLeft: number, maxTime: number = 60): number => {
-    // Award more points for faster guesses
-    const timeRatio = timeLeft / maxTime
-    const basePoints = 100
-    const timeBonus = Math.floor(timeRatio * 50) // Up to 50 bonus points
-    return Math.max(basePoints + timeBonus, 50) // Minimum 50 points
-  }
+    return listenPrivately(backend.realtime, roomId, user.id, (type, data) => {
+      if (type === 'guessed_message') {
+        const { message: line } = data as GuessedMessagePayload
+        setGuessedChat(previous => (previous.some(m => m.id === line.id) ? previous : [...previous, line]))
+        return
+      }
+      if (type !== 'guess_result') return
+      const result = data as GuessResultPayload
+      if (result.correct) {
+        setGuessedRound(result.round)
+        toast.success('You guessed it!', { description: `+${result.points} points!` })
+      } else if (result.close) {
+        toast('You\'re close!')
+        setCloseGuesses(previous => [...previous, {
+          id: createId('close'),
+          roomId,
+          userId: user.id,
+          displayName: 'Only you can see this',
+          message: result.text ?? '',
+          isGuess: true,
+          isCorrect: false,
+          guessedOnly: false,
+          createdAt: new Date(backend.clock.now()).toISOString()
+        }])
+      }
+    })
+  }, [roomId, user?.id])
+
+  const pendingGuessedChat = guessedChat.filter(line => !messages.some(m => m.id === line.id))
+  const chatLines = closeGuesses.length === 0 && pendingGuessedChat.length === 0
+    ? messages
+    : [...messages, ...closeGuesses, ...pendingGuessedChat].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  const isCloseGuess = (message: GameMessage) => closeGuesses.includes(message)
+
+  // The drawer and those who have guessed talk among themselves until the round ends
+  const inGuessedChat = gameState === 'playing' && (isDrawer || guessedRound === round)
+
+  useEffect(() => {
+    scrollToBottom()
+  }, [messages, closeGuesses, guessedChat])
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
     
     if (!newMessage.trim() || !user) return
 
-    // Drawer can't guess
-    if (isDrawer && gameState === 'playing') {
-      return
-    }
-
-    const isGuess = gameState === 'playing' && !isDrawer
-    const isCorrect = isGuess && currentWord && 
-      newMessage.toLowerCase().trim() === currentWord.toLowerCase()
+    const displayName = user.email?.split('@')[0] || 'Player'
 
     try {
-      const messageData = {
-        id: `msg_${Date.now()}_${Math.random()}`,
-        roomId,
-        userId: user.id,
-        displayName: user.email?.split('@')[0] || 'Player',
-        message: newMessage.trim(),
-        isGuess,
-        isCorrect
-      }
-
-      await blink.db.gameMessages.create(messageData)
-
-      // If correct guess, award points and notify
-      if (isCorrect) {
-        const points = calculatePoints(60) // Simplified - you could pass actual time left
-        onCorrectGuess(user.id, points)
-
-        // Notify all players about correct guess
-        await blink.realtime.publish(`room_${roomId}`, 'correct_guess', {
-          playerName: messageData.displayName,
-          playerId: user.id,
-          points,
-          word: currentWord
+      if (gameState === 'playing') {
+        // Guesses are judged by the room authority, which never shares the word.
+        // It also decides who gets to see chat from the drawer and guessers.
+        // When a player's browser runs it, anyone could be listening, so the
+        // guess goes sealed for that browser alone, with the key to seal any
+        // answer for this one.
+        const sealed = backend.authority === 'client'
+        if (sealed && !guessKey) {
+          toast.error('The round is still starting, try again in a moment')
+          return
+        }
+        const guess = sealed
+          ? { text: newMessage.trim(), displayName, replyKey: await replyKey() }
+          : { text: newMessage.trim(), displayName }
+        await sendGuess(backend.realtime, roomId, round, guess, sealed ? guessKey : null)
+      } else {
+        const messageData = await repo.messages.create({
+          id: createId('msg'),
+          roomId,
+          userId: user.id,
+          displayName,
+          message: newMessage.trim(),
+          isGuess: false,
+          isCorrect: false,
+          guessedOnly: false
         })
 
-        // Also notify chat channel
-        await blink.realtime.publish(`chat_${roomId}`, 'correct_guess', {
-          playerName: messageData.displayName,
-          points
+        // Notify chat about new message
+        await backend.realtime.publish(chatChannel(roomId), 'new_message', {
+          messageId: messageData.id,
+          isCorrect: false
         })
-
-        // Check if round should end (simplified - could check if all players guessed)
-        setTimeout(async () => {
-          await blink.realtime.publish(`room_${roomId}`, 'round_end', {
-            winners: [user.id],
-            correctWord: currentWord
-          })
-        }, 1000)
       }
 
-      // Notify chat about new message
-      await blink.realtime.publish(`chat_${roomId}`, 'new_message', {
-        messageId: messageData.id,
-        isCorrect
-      })
-
       setNewMessage('')
     } catch (error) {
       console.error('Error sending message:', error)
@@ -173,9 +191,15 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
   }
 
   const getMessageStyle = (message: GameMessage) => {
+    if (isCloseGuess(message)) {
+      return 'bg-amber-50 border-amber-200 text-amber-900'
+    }
     if (message.isCorrect) {
       return 'bg-green-100 border-green-200 text-green-800 animate-pulse'
     }
+    if (message.guessedOnly) {
+      return 'bg-emerald-50 border-emerald-200 text-emerald-900 italic'
+    }
     if (message.isGuess) {
       return 'bg-blue-50 border-blue-200'
     }
@@ -186,6 +210,9 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
     if (message.isCorrect) {
       return <Trophy className="h-3 w-3 text-green-600" />
     }
+    if (message.guessedOnly) {
+      return <EyeOff className="h-3 w-3 text-emerald-600" />
+    }
     if (message.isGuess) {
       return <MessageCircle className="h-3 w-3 text-blue-600" />
     }
@@ -196,11 +223,16 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
     <Card className="p-4 h-full flex flex-col">
       <div className="flex items-center gap-2 mb-4">
         <h3 className="font-heading text-lg text-primary">Chat</h3>
-        {gameState === 'playing' && !isDrawer && (
+        {gameState === 'playing' && !isDrawer && !inGuessedChat && (
           <Badge variant="outline" className="text-xs animate-pulse">
             Type your guesses!
           </Badge>
         )}
+        {gameState === 'playing' && !isDrawer && inGuessedChat && (
+          <Badge variant="outline" className="text-xs border-emerald-300 text-emerald-700">
+            Guessed!
+          </Badge>
+        )}
         {gameState === 'playing' && isDrawer && (
           <Badge variant="secondary" className="text-xs">
             Drawing...
@@ -210,7 +242,7 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto space-y-2 mb-4 max-h-96">
-        {messages.map((message) => (
+        {chatLines.map((message) => (
           <div
             key={message.id}
             className={`p-2 rounded-lg border transition-all duration-300 ${getMessageStyle(message)}`}
@@ -225,6 +257,16 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
                   Correct! 🎉
                 </Badge>
               )}
+              {message.guessedOnly && (
+                <Badge variant="outline" className="text-xs border-emerald-300 text-emerald-700">
+                  Guessed chat
+                </Badge>
+              )}
+              {isCloseGuess(message) && (
+                <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">
+                  So close!
+                </Badge>
+              )}
             </div>
             <p className="text-sm">
               {message.isCorrect ? (
@@ -239,7 +281,7 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
           </div>
         ))}
         
-        {messages.length === 0 && (
+        {chatLines.length === 0 && (
           <div className="text-center py-8 text-muted-foreground">
             <MessageCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
             <p className="text-sm">No messages yet</p>
@@ -262,20 +304,19 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
           value={newMessage}
           onChange={(e) => setNewMessage(e.target.value)}
           placeholder={
-            isDrawer && gameState === 'playing'
-              ? "You can't guess while drawing!"
+            inGuessedChat
+              ? 'Only the drawer and players who guessed see this...'
               : gameState === 'playing'
               ? 'Type your guess...'
               : 'Type a message...'
           }
-          disabled={isDrawer && gameState === 'playing'}
           className="flex-1"
           autoComplete="off"
         />
         <Button 
           type="submit" 
           size="sm"
-          disabled={!newMessage.trim() || (isDrawer && gameState === 'playing')}
+          disabled={!newMessage.trim()}
           className="transition-all hover:scale-105"
         >
           <Send className="h-4 w-4" />
@@ -283,10 +324,12 @@ export function ChatArea({ roomId, currentWord, isDrawer, gameState, onCorrectGu
       </form>
 
       {/* Hint for guessers */}
-      {gameState === 'playing' && !isDrawer && currentWord && (
+      {gameState === 'playing' && !isDrawer && wordMask && (
         <div className="mt-2 text-center">
           <p className="text-xs text-muted-foreground">
-            💡 Hint: {currentWord.length} letters
+            💡 Hint: {revealedCount(wordMask) > 0
+              ? `${revealedCount(wordMask)} of ${letterCount(wordMask)} letters revealed`
+              : `${letterCount(wordMask)} letters`}
           </p>
         </div>
       )}
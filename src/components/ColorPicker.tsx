@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react'
+import { hsvToRgb, parseHex, rgbToHsv, toHex, type Hsv } from '../lib/colors'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Slider } from './ui/slider'
+import { Pipette } from 'lucide-react'
+
+interface ColorPickerProps {
+  // Always opaque; how see-through it is drawn is `opacity`.
+  color: string
+  opacity: number
+  eyedropperActive: boolean
+  onColorChange: (color: string) => void
+  onOpacityChange: (opacity: number) => void
+  onEyedropper: () => void
+}
+
+const HUE_STOPS = '#f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00'
+
+// Where a pointer sits within an element, from 0 to 1 each way.
+const positionIn = (e: React.PointerEvent<HTMLDivElement>) => {
+  const rect = e.currentTarget.getBoundingClientRect()
+  return {
+    x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+    y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+  }
+}
+
+// Calls `onMove` for a press and for every move while it is held.
+const dragHandlers = (onMove: (e: React.PointerEvent<HTMLDivElement>) => void) => ({
+  onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    onMove(e)
+  },
+  onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) onMove(e)
+  }
+})
+
+export function ColorPicker({
+  color,
+  opacity,
+  eyedropperActive,
+  onColorChange,
+  onOpacityChange,
+  onEyedropper
+}: ColorPickerProps) {
+  // Kept apart from `color` so greys and black don't lose the hue being dragged.
+  const [hsv, setHsv] = useState<Hsv>(() => rgbToHsv(parseHex(color) ?? { r: 0, g: 0, b: 0, a: 1 }))
+  const [hexInput, setHexInput] = useState(color)
+
+  useEffect(() => {
+    setHexInput(color)
+    setHsv(previous => {
+      const rgba = parseHex(color)
+      if (!rgba || toHex(hsvToRgb(previous)) === color) return previous
+      return rgbToHsv(rgba)
+    })
+  }, [color])
+
+  const changeHsv = (next: Hsv) => {
+    setHsv(next)
+    onColorChange(toHex(hsvToRgb(next)))
+  }
+
+  const commitHex = () => {
+    const rgba = parseHex(hexInput.startsWith('#') ? hexInput : `#${hexInput}`)
+    if (rgba) onColorChange(toHex({ ...rgba, a: 1 }))
+    else setHexInput(color)
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="w-6 h-6 rounded-full border-2 border-gray-300 transition-all hover:scale-110"
+          style={{ background: `conic-gradient(${HUE_STOPS})` }}
+          title="More colors"
+        />
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        {/* Saturation across, brightness down */}
+        <div
+          className="relative h-32 rounded-md cursor-crosshair touch-none"
+          style={{
+            background: `linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, transparent), hsl(${hsv.h}, 100%, 50%)`
+          }}
+          {...dragHandlers((e) => {
+            const { x, y } = positionIn(e)
+            changeHsv({ ...hsv, s: x, v: 1 - y })
+          })}
+        >
+          <div
+            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white shadow pointer-events-none"
+            style={{ left: `${hsv.s * 100}%`, top: `${(1 - hsv.v) * 100}%` }}
+          />
+        </div>
+
+        {/* Hue */}
+        <div
+          className="relative h-3 rounded-full cursor-pointer touch-none"
+          style={{ background: `linear-gradient(to right, ${HUE_STOPS})` }}
+          {...dragHandlers((e) => changeHsv({ ...hsv, h: Math.min(359, positionIn(e).x * 360) }))}
+        >
+          <div
+            className="absolute top-1/2 w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white shadow pointer-events-none"
+            style={{ left: `${(hsv.h / 360) * 100}%` }}
+          />
+        </div>
+
+        {/* Opacity */}
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium">Opacity:</span>
+          <Slider
+            value={[opacity]}
+            onValueChange={([value]) => onOpacityChange(value)}
+            min={0.1}
+            max={1}
+            step={0.05}
+            className="flex-1"
+          />
+          <span className="text-sm text-muted-foreground w-10 text-right">{Math.round(opacity * 100)}%</span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div
+            className="w-8 h-8 shrink-0 rounded-md border"
+            style={{ backgroundColor: color, opacity }}
+          />
+          <Input
+            value={hexInput}
+            onChange={(e) => setHexInput(e.target.value)}
+            onBlur={commitHex}
+            onKeyDown={(e) => e.key === 'Enter' && commitHex()}
+            className="font-mono"
+            maxLength={7}
+          />
+          <Button
+            variant={eyedropperActive ? 'default' : 'outline'}
+            size="sm"
+            onClick={onEyedropper}
+            title="Pick a color from the drawing"
+          >
+            <Pipette className="h-4 w-4" />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
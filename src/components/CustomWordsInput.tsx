@@ -0,0 +1,93 @@
+import { useRef } from 'react'
+import { MIN_CUSTOM_WORDS, type WordListCheck } from '../game/word-validation'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { AlertCircle } from 'lucide-react'
+
+interface CustomWordsInputProps {
+  value: string
+  onChange: (value: string) => void
+  // The checked list for `value`, worked out by the parent so it can refuse to
+  // create the room with the same result.
+  check: WordListCheck
+}
+
+// Shared by the textarea and the highlight layer behind it, so the two line up.
+const TEXT_LAYOUT = 'px-3 py-2 font-mono text-sm md:text-sm leading-6 whitespace-pre-wrap break-words'
+
+export function CustomWordsInput({ value, onChange, check }: CustomWordsInputProps) {
+  const backdropRef = useRef<HTMLDivElement>(null)
+
+  // The text again, invisible, with a mark behind every entry that has a problem
+  const highlights: React.ReactNode[] = []
+  let cursor = 0
+  for (const [index, problem] of check.problems.entries()) {
+    highlights.push(value.slice(cursor, problem.start))
+    highlights.push(
+      <mark key={index} className="bg-red-200 text-transparent rounded-sm">
+        {value.slice(problem.start, problem.end)}
+      </mark>
+    )
+    cursor = problem.end
+  }
+  highlights.push(value.slice(cursor))
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={`absolute inset-0 overflow-hidden rounded-md border border-transparent text-transparent ${TEXT_LAYOUT}`}
+        >
+          {highlights}
+          {/* A trailing new line only takes up room with something after it */}
+          {'\n '}
+        </div>
+        <Textarea
+          placeholder="Enter custom words separated by commas or new lines&#10;Example: rainbow, butterfly, ice cream | icecream, &quot;salt, pepper&quot;..."
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop
+          }}
+          rows={4}
+          spellCheck={false}
+          className={`relative ${TEXT_LAYOUT}`}
+        />
+      </div>
+
+      {/* Problems */}
+      {check.problems.length > 0 && (
+        <ul className="space-y-1">
+          {check.problems.map((problem, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>Line {problem.line}: {problem.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Preview */}
+      {check.entries.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {check.entries.length} word{check.entries.length === 1 ? '' : 's'}
+            {check.entries.length < MIN_CUSTOM_WORDS && `, at least ${MIN_CUSTOM_WORDS} needed`}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {check.entries.map(entry => (
+              <Badge key={entry.word} variant="secondary" className="text-xs font-normal">
+                {entry.word}
+                {entry.aliases.length > 0 && (
+                  <span className="ml-1 text-muted-foreground">({entry.aliases.join(', ')})</span>
+                )}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,17 @@
 import { useRef, useEffect, useState, useCallback } from 'react'
-import { blink } from '../blink/client'
+import { backend } from '../backend'
+import { repo } from '../data'
+import { drawingChannel, type NewStrokePayload, type StrokePointsPayload, type StrokeUndonePayload } from '../game/protocol'
+import { floodFill } from '../game/flood-fill'
+import { decodeStroke, encodeStroke } from '../game/stroke-codec'
+import { useRecentColors } from '../hooks/use-recent-colors'
+import { opacityOf, opaqueColor, toHex, withOpacity } from '../lib/colors'
+import type { CanvasOperation, DrawingStroke, FillData, ShapeData, ShapeKind, StrokeData, StrokePoint, StrokeStyle } from '../types/game'
 import { Card } from './ui/card'
 import { Button } from './ui/button'
 import { Slider } from './ui/slider'
-import { Eraser, Trash2, Palette, Undo } from 'lucide-react'
+import { ColorPicker } from './ColorPicker'
+import { Eraser, Trash2, Palette, Undo, PaintBucket, Slash, Square, Circle, History } from 'lucide-react'
 
 interface DrawingCanvasProps {
   roomId: string
@@ -11,135 +19,366 @@ interface DrawingCanvasProps {
   currentRound: number
 }
 
-interface DrawingStroke {
-  id: string
-  roomId: string
-  roundNumber: number
-  strokeData: string
-  createdAt: string
-}
+// How often a stroke being drawn is sent to watchers.
+const STROKE_BATCH_MS = 50
 
-interface Point {
-  x: number
-  y: number
+type Tool = 'brush' | 'eraser' | 'fill' | 'eyedropper' | ShapeKind
+
+const SHAPE_TOOLS: { shape: ShapeKind; label: string; icon: React.ReactNode }[] = [
+  { shape: 'line', label: 'Line', icon: <Slash className="h-4 w-4" /> },
+  { shape: 'rectangle', label: 'Rectangle', icon: <Square className="h-4 w-4" /> },
+  { shape: 'ellipse', label: 'Ellipse', icon: <Circle className="h-4 w-4" /> }
+]
+
+const isShapeTool = (tool: Tool): tool is ShapeKind => SHAPE_TOOLS.some(({ shape }) => shape === tool)
+
+// Enough to swallow the soft edges of lines, so fills reach right up to them.
+const DEFAULT_FILL_TOLERANCE = 48
+
+interface LiveStroke {
+  id: string
+  pointerId: number
+  style: StrokeStyle
+  points: StrokePoint[]
+  // How many of `points` have been sent, and how many batches that took.
+  sent: number
+  seq: number
 }
 
-interface StrokeData {
-  points: Point[]
-  color: string
-  size: number
-  isEraser: boolean
+// A stroke someone else is drawing, as far as it has arrived.
+interface WatchedStroke {
+  // Every point so far for see-through strokes, which are redrawn whole;
+  // otherwise only the last, to carry on from.
+  points: StrokePoint[]
+  nextSeq: number
+  // False once a batch went missing; the saved stroke is drawn whole instead.
+  intact: boolean
 }
 
 const COLORS = [
   '#000000', // Black
-  '#FF6B6B', // Red
-  '#4ECDC4', // Teal
-  '#45B7D1', // Blue
-  '#96CEB4', // Green
-  '#FFEAA7', // Yellow
-  '#DDA0DD', // Plum
+  '#4B4B4B', // Dark Grey
+  '#9E9E9E', // Grey
+  '#FFFFFF', // White
+  '#7B1E1E', // Dark Red
+  '#E53935', // Red
+  '#FF6B6B', // Light Red
+  '#F57C00', // Orange
   '#FFA07A', // Light Salmon
-  '#98D8C8', // Mint
+  '#FDD835', // Yellow
   '#F7DC6F', // Light Yellow
+  '#5D3A1A', // Dark Brown
+  '#8D5524', // Brown
+  '#D2A679', // Tan
+  '#1B5E20', // Dark Green
+  '#43A047', // Green
+  '#96CEB4', // Light Green
+  '#4ECDC4', // Teal
+  '#0D47A1', // Navy
+  '#1E88E5', // Blue
+  '#85C1E9', // Light Blue
+  '#4A148C', // Dark Purple
   '#BB8FCE', // Light Purple
-  '#85C1E9'  // Light Blue
+  '#F48FB1'  // Pink
 ]
 
+const parseStroke = (stroke: DrawingStroke): CanvasOperation | null => {
+  try {
+    return decodeStroke(stroke.strokeData)
+  } catch (error) {
+    console.error('Error parsing stroke data:', error)
+    return null
+  }
+}
+
+// Half pressure draws at the brush size; a light touch goes down to a fifth of it.
+const widthAt = (size: number, point: StrokePoint) =>
+  point.pressure === undefined ? size : Math.max(1, size * (0.2 + point.pressure * 1.6))
+
+let scratch: HTMLCanvasElement | null = null
+
+// Paints a see-through color at full strength on a scratch canvas, then lays
+// the result over `ctx` in one go, so where a line crosses itself it doesn't
+// come out darker. Opaque colors are painted straight on.
+const paintTranslucent = (
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  paint: (target: CanvasRenderingContext2D, color: string) => void
+) => {
+  const alpha = opacityOf(color)
+  if (alpha >= 1) {
+    paint(ctx, color)
+    return
+  }
+
+  scratch ??= document.createElement('canvas')
+  // Resizing also clears it
+  scratch.width = ctx.canvas.width
+  scratch.height = ctx.canvas.height
+  const layer = scratch.getContext('2d')
+  if (!layer) return
+  paint(layer, opaqueColor(color))
+
+  ctx.save()
+  ctx.globalAlpha = alpha
+  ctx.globalCompositeOperation = 'source-over'
+  ctx.drawImage(scratch, 0, 0)
+  ctx.restore()
+}
+
+const clearOverlay = (overlay: HTMLCanvasElement | null) => {
+  overlay?.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height)
+}
+
+const applyFill = (ctx: CanvasRenderingContext2D, fill: FillData) => {
+  const { width, height } = ctx.canvas
+  const image = ctx.getImageData(0, 0, width, height)
+  if (floodFill(image, fill.x, fill.y, fill.color, fill.tolerance)) ctx.putImageData(image, 0, 0)
+}
+
+const drawShape = (target: CanvasRenderingContext2D, shape: ShapeData) => paintTranslucent(target, shape.color, (ctx, color) => {
+  const { from, to } = shape
+  ctx.globalCompositeOperation = 'source-over'
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = shape.size
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+
+  ctx.beginPath()
+  if (shape.shape === 'line') {
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(to.x, to.y)
+  } else if (shape.shape === 'rectangle') {
+    ctx.rect(Math.min(from.x, to.x), Math.min(from.y, to.y), Math.abs(to.x - from.x), Math.abs(to.y - from.y))
+  } else {
+    ctx.ellipse((from.x + to.x) / 2, (from.y + to.y) / 2, Math.abs(to.x - from.x) / 2, Math.abs(to.y - from.y) / 2, 0, 0, Math.PI * 2)
+  }
+  if (shape.filled && shape.shape !== 'line') ctx.fill()
+  ctx.stroke()
+})
+
+const clearToWhite = (canvas: HTMLCanvasElement | null) => {
+  const ctx = canvas?.getContext('2d')
+  if (!canvas || !ctx) return
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+}
+
 export function DrawingCanvas({ roomId, canDraw, currentRound }: DrawingCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  // Shows the shape being dragged out, or a see-through stroke still being
+  // drawn, over the drawing
+  const overlayRef = useRef<HTMLCanvasElement>(null)
   const [isDrawing, setIsDrawing] = useState(false)
   const [currentColor, setCurrentColor] = useState('#000000')
+  const [opacity, setOpacity] = useState(1)
+  const { recent, addRecent } = useRecentColors()
   const [brushSize, setBrushSize] = useState([5])
-  const [isEraser, setIsEraser] = useState(false)
+  const [tool, setTool] = useState<Tool>('brush')
+  const [fillTolerance, setFillTolerance] = useState([DEFAULT_FILL_TOLERANCE])
+  const [shapeFilled, setShapeFilled] = useState(false)
   const [strokes, setStrokes] = useState<DrawingStroke[]>([])
-  const [currentStroke, setCurrentStroke] = useState<Point[]>([])
+  const isEraser = tool === 'eraser'
+  const drawColor = withOpacity(currentColor, opacity)
+  // The same list, for realtime handlers that outlive a render.
+  const strokesRef = useRef<DrawingStroke[]>([])
+  const liveStrokeRef = useRef<LiveStroke | null>(null)
+  const shapeDraftRef = useRef<{ pointerId: number; shape: ShapeData } | null>(null)
+  // Strokes drawn here, whose batches come back over realtime.
+  const ownStrokesRef = useRef(new Set<string>())
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const watchedRef = useRef(new Map<string, WatchedStroke>())
   const realtimeChannelRef = useRef<any>(null)
+  // Saves go out one after another, so the log keeps the order things were drawn in.
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  // The log drawn whole, one operation after another, and which strokes that
+  // took. Kept off screen and added to as the log grows, so it is only drawn
+  // again from the start when strokes come off the log.
+  const replayRef = useRef<{ canvas: HTMLCanvasElement; ids: string[] } | null>(null)
+
+  const replaceStrokes = useCallback((next: DrawingStroke[]) => {
+    strokesRef.current = next
+    setStrokes(next)
+  }, [])
 
-  const drawStroke = useCallback((ctx: CanvasRenderingContext2D, strokeData: StrokeData) => {
-    if (!strokeData.points || strokeData.points.length < 2) return
+  // Draws `points` as one path, starting from `from` when it continues an earlier batch.
+  const drawPath = useCallback((target: CanvasRenderingContext2D, style: StrokeStyle, points: StrokePoint[], from?: StrokePoint) => {
+    const path = from ? [from, ...points] : points
+    if (path.length < 2) return
 
-    ctx.beginPath()
-    ctx.strokeStyle = strokeData.color
-    ctx.lineWidth = strokeData.size
-    ctx.lineCap = 'round'
-    ctx.lineJoin = 'round'
+    paintTranslucent(target, style.color, (ctx, color) => {
+      ctx.strokeStyle = color
+      ctx.lineCap = 'round'
+      ctx.lineJoin = 'round'
 
-    if (strokeData.isEraser) {
-      ctx.globalCompositeOperation = 'destination-out'
-    } else {
-      ctx.globalCompositeOperation = 'source-over'
-    }
+      if (style.isEraser) {
+        ctx.globalCompositeOperation = 'destination-out'
+      } else {
+        ctx.globalCompositeOperation = 'source-over'
+      }
 
-    ctx.moveTo(strokeData.points[0].x, strokeData.points[0].y)
-    
-    for (let i = 1; i < strokeData.points.length; i++) {
-      ctx.lineTo(strokeData.points[i].x, strokeData.points[i].y)
-    }
-    
-    ctx.stroke()
+      // Pressure changes the width along the way, so each segment gets its own
+      if (path.some(point => point.pressure !== undefined)) {
+        for (let i = 1; i < path.length; i++) {
+          ctx.beginPath()
+          ctx.lineWidth = (widthAt(style.size, path[i - 1]) + widthAt(style.size, path[i])) / 2
+          ctx.moveTo(path[i - 1].x, path[i - 1].y)
+          ctx.lineTo(path[i].x, path[i].y)
+          ctx.stroke()
+        }
+        return
+      }
+
+      ctx.beginPath()
+      ctx.lineWidth = style.size
+      ctx.moveTo(path[0].x, path[0].y)
+      
+      for (let i = 1; i < path.length; i++) {
+        ctx.lineTo(path[i].x, path[i].y)
+      }
+      
+      ctx.stroke()
+    })
   }, [])
 
+  const drawOperation = useCallback((ctx: CanvasRenderingContext2D, operation: CanvasOperation) => {
+    if (operation.kind === 'fill') applyFill(ctx, operation)
+    else if (operation.kind === 'shape') drawShape(ctx, operation)
+    else drawPath(ctx, operation, operation.points)
+  }, [drawPath])
+
+  // Brings the replay up to `strokesData` and shows it. Only the strokes added
+  // since the last call are drawn, unless some were undone or cleared, in
+  // which case the whole log is.
   const redrawCanvas = useCallback((strokesData: DrawingStroke[]) => {
     const canvas = canvasRef.current
-    if (!canvas) return
-
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-    ctx.fillStyle = '#ffffff'
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const replay = (replayRef.current ??= { canvas: document.createElement('canvas'), ids: [] })
+    const replayCtx = replay.canvas.getContext('2d')
+    if (!replayCtx) return
+    const extendsReplay = replay.canvas.width === canvas.width &&
+      replay.canvas.height === canvas.height &&
+      replay.ids.every((id, index) => strokesData[index]?.id === id)
+    if (!extendsReplay) {
+      // Resizing also clears it
+      replay.canvas.width = canvas.width
+      replay.canvas.height = canvas.height
+      clearToWhite(replay.canvas)
+      replay.ids = []
+    }
+    for (const stroke of strokesData.slice(replay.ids.length)) {
+      const operation = parseStroke(stroke)
+      if (operation) drawOperation(replayCtx, operation)
+      replay.ids.push(stroke.id)
+    }
 
-    // Redraw all strokes
-    strokesData.forEach(stroke => {
-      try {
-        const strokeData = JSON.parse(stroke.strokeData) as StrokeData
-        drawStroke(ctx, strokeData)
-      } catch (error) {
-        console.error('Error parsing stroke data:', error)
-      }
+    // Copied as it is, erased pixels and all
+    ctx.save()
+    ctx.globalCompositeOperation = 'copy'
+    ctx.drawImage(replay.canvas, 0, 0)
+    ctx.restore()
+    // Whatever was streamed in meanwhile was just painted over
+    watchedRef.current.forEach(watched => {
+      watched.intact = false
     })
-  }, [drawStroke])
+  }, [drawOperation])
 
+  // Only on joining and at each new round; after that strokes arrive over realtime.
   const loadStrokes = useCallback(async () => {
     try {
-      const strokesData = await blink.db.drawingStrokes.list({
-        where: { 
-          roomId,
-          roundNumber: currentRound 
-        },
-        orderBy: { createdAt: 'asc' }
-      })
+      const strokesData = await repo.strokes.listByRound(roomId, currentRound)
       
-      setStrokes(strokesData as DrawingStroke[])
-      redrawCanvas(strokesData as DrawingStroke[])
+      replaceStrokes(strokesData)
+      redrawCanvas(strokesData)
     } catch (error) {
       console.error('Error loading strokes:', error)
     }
-  }, [roomId, currentRound, redrawCanvas])
+  }, [roomId, currentRound, redrawCanvas, replaceStrokes])
 
   // Set up real-time drawing synchronization
   useEffect(() => {
     if (!roomId) return
 
+    const watched = watchedRef.current
+    const receivePoints = ({ strokeId, seq, data }: StrokePointsPayload) => {
+      if (ownStrokesRef.current.has(strokeId) || strokesRef.current.some(stroke => stroke.id === strokeId)) return
+
+      let batch: CanvasOperation
+      try {
+        batch = decodeStroke(data)
+      } catch (error) {
+        console.error('Error decoding stroke batch:', error)
+        return
+      }
+      if (batch.kind !== 'stroke') return
+      const { points } = batch
+
+      const previous = watched.get(strokeId)
+      const intact = seq === (previous?.nextSeq ?? 0) && (previous?.intact ?? true)
+      const translucent = opacityOf(batch.color) < 1
+      const soFar = translucent ? [...(previous?.points ?? []), ...points] : points.slice(-1)
+      if (intact && translucent) {
+        // Redrawn whole on the overlay until it is saved
+        const overlay = overlayRef.current
+        clearOverlay(overlay)
+        const ctx = overlay?.getContext('2d')
+        if (ctx) drawPath(ctx, batch, soFar)
+      } else if (intact) {
+        const ctx = canvasRef.current?.getContext('2d')
+        if (ctx) drawPath(ctx, batch, points, previous?.points[previous.points.length - 1])
+      }
+      watched.set(strokeId, { points: soFar, nextSeq: seq + 1, intact })
+    }
+
+    const receiveStroke = ({ stroke }: NewStrokePayload) => {
+      if (strokesRef.current.some(existing => existing.id === stroke.id)) return
+
+      // Watchers who saw every batch have drawn it already, unless it is
+      // see-through and so still on the overlay. Fills and shapes are never streamed.
+      const seen = watched.get(stroke.id)
+      watched.delete(stroke.id)
+      const operation = parseStroke(stroke)
+      if (operation?.kind === 'fill') {
+        // A fill spreads over whatever pixels it finds, so it goes onto the
+        // log drawn whole, as it did for the drawer
+        const next = [...strokesRef.current, stroke]
+        replaceStrokes(next)
+        redrawCanvas(next)
+        return
+      }
+      const translucent = operation !== null && opacityOf(operation.color) < 1
+      if (translucent) clearOverlay(overlayRef.current)
+      if (!seen?.intact || translucent) {
+        const ctx = canvasRef.current?.getContext('2d')
+        if (operation && ctx) drawOperation(ctx, operation)
+      }
+      replaceStrokes([...strokesRef.current, stroke])
+    }
+
     const setupRealtime = async () => {
       try {
-        const unsubscribe = await blink.realtime.subscribe(`drawing_${roomId}`, (message) => {
-          if (message.type === 'new_stroke') {
-            loadStrokes()
+        const unsubscribe = await backend.realtime.subscribe(drawingChannel(roomId), (message) => {
+          if (message.data?.roundNumber !== currentRound) return
+
+          if (message.type === 'stroke_points') {
+            receivePoints(message.data as StrokePointsPayload)
+          } else if (message.type === 'new_stroke') {
+            receiveStroke(message.data as NewStrokePayload)
+          } else if (message.type === 'stroke_undone') {
+            const { strokeId } = message.data as StrokeUndonePayload
+            if (!strokesRef.current.some(stroke => stroke.id === strokeId)) return
+            const next = strokesRef.current.filter(stroke => stroke.id !== strokeId)
+            replaceStrokes(next)
+            redrawCanvas(next)
           } else if (message.type === 'canvas_cleared') {
-            setStrokes([])
-            const canvas = canvasRef.current
-            if (canvas) {
-              const ctx = canvas.getContext('2d')
-              if (ctx) {
-                ctx.clearRect(0, 0, canvas.width, canvas.height)
-                ctx.fillStyle = '#ffffff'
-                ctx.fillRect(0, 0, canvas.width, canvas.height)
-              }
-            }
+            watched.clear()
+            replaceStrokes([])
+            redrawCanvas([])
+            clearOverlay(overlayRef.current)
           }
         })
 
@@ -153,13 +392,111 @@ export function DrawingCanvas({ roomId, canDraw, currentRound }: DrawingCanvasPr
     loadStrokes()
 
     return () => {
+      watched.clear()
       if (realtimeChannelRef.current) {
         realtimeChannelRef.current()
       }
     }
-  }, [roomId, loadStrokes])
+  }, [roomId, currentRound, loadStrokes, drawPath, drawOperation, redrawCanvas, replaceStrokes])
+
+  // Sends the points drawn since the last batch. Waits for a second point, so
+  // a click that never becomes a stroke sends nothing.
+  const flushStroke = async () => {
+    if (flushTimerRef.current) {
+      clearTimeout(flushTimerRef.current)
+      flushTimerRef.current = null
+    }
+    const live = liveStrokeRef.current
+    if (!live || live.points.length < 2 || live.sent === live.points.length) return
+
+    // A batch after the first repeats nothing; watchers join it to the last one.
+    const payload: StrokePointsPayload = {
+      strokeId: live.id,
+      roundNumber: currentRound,
+      seq: live.seq,
+      data: encodeStroke({ kind: 'stroke', ...live.style, points: live.points.slice(live.sent) })
+    }
+    live.sent = live.points.length
+    live.seq += 1
+
+    try {
+      await backend.realtime.publish(drawingChannel(roomId), 'stroke_points', payload)
+    } catch (error) {
+      console.error('Error streaming stroke:', error)
+    }
+  }
+
+  // Saved once, and handed to watchers whole so nobody re-fetches. It joins
+  // the log here straight away, so a fill right after it redraws with it.
+  const saveOperation = (id: string, operation: CanvasOperation) => {
+    if (operation.kind !== 'stroke' || !operation.isEraser) addRecent(operation.color)
+
+    const strokeData = encodeStroke(operation)
+    replaceStrokes([
+      ...strokesRef.current,
+      { id, roomId, roundNumber: currentRound, strokeData, createdAt: new Date().toISOString() }
+    ])
+
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      try {
+        const stroke = await repo.strokes.create({ id, roomId, roundNumber: currentRound, strokeData })
+        replaceStrokes(strokesRef.current.map(existing => (existing.id === id ? stroke : existing)))
+
+        const payload: NewStrokePayload = { roundNumber: currentRound, stroke }
+        await backend.realtime.publish(drawingChannel(roomId), 'new_stroke', payload)
+      } catch (error) {
+        console.error('Error saving stroke:', error)
+        const next = strokesRef.current.filter(existing => existing.id !== id)
+        replaceStrokes(next)
+        redrawCanvas(next)
+      }
+    })
+    return saveQueueRef.current
+  }
+
+  const fillAt = async (point: StrokePoint) => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+
+    const fill: FillData = {
+      kind: 'fill',
+      x: Math.floor(point.x),
+      y: Math.floor(point.y),
+      color: drawColor,
+      tolerance: fillTolerance[0]
+    }
+    // Strokes drawn here went on a piece at a time, which can leave slightly
+    // different edges from drawing them whole. Worked out on the replay, the
+    // fill starts from the same pixels as on every watcher's canvas.
+    redrawCanvas(strokesRef.current)
+    const replay = replayRef.current
+    const replayCtx = replay?.canvas.getContext('2d')
+    if (!replay || !replayCtx) return
+    const { width, height } = ctx.canvas
+    const image = replayCtx.getImageData(0, 0, width, height)
+    // Nothing to save for a click that changes nothing
+    if (!floodFill(image, fill.x, fill.y, fill.color, fill.tolerance)) return
+    replayCtx.putImageData(image, 0, 0)
+    ctx.putImageData(image, 0, 0)
+
+    const fillId = `stroke_${Date.now()}_${Math.random()}`
+    // Already on the replay, and about to go on the end of the log
+    replay.ids.push(fillId)
+    ownStrokesRef.current.add(fillId)
+    await saveOperation(fillId, fill)
+  }
+
+  // The eyedropper takes the color as it shows, then hands back the brush.
+  const pickColorAt = (point: StrokePoint) => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+    const [r, g, b, a] = ctx.getImageData(Math.floor(point.x), Math.floor(point.y), 1, 1).data
+    const overWhite = (channel: number) => (channel * a + 255 * (255 - a)) / 255
+    setCurrentColor(toHex({ r: overWhite(r), g: overWhite(g), b: overWhite(b), a: 1 }))
+    setTool('brush')
+  }
 
-  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+  const getPointerPos = (e: { clientX: number; clientY: number; pointerType: string; pressure: number }): StrokePoint => {
     const canvas = canvasRef.current
     if (!canvas) return { x: 0, y: 0 }
 
@@ -167,124 +504,161 @@ export function DrawingCanvas({ roomId, canDraw, currentRound }: DrawingCanvasPr
     const scaleX = canvas.width / rect.width
     const scaleY = canvas.height / rect.height
 
-    return {
+    const point: StrokePoint = {
       x: (e.clientX - rect.left) * scaleX,
       y: (e.clientY - rect.top) * scaleY
     }
+    // Mice report a flat 0.5 and most touch screens nothing useful
+    if (e.pointerType === 'pen') point.pressure = e.pressure
+    return point
   }
 
-  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canDraw) return
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    // One pointer at a time: a second finger neither draws nor ends the stroke
+    if (!canDraw || !e.isPrimary || liveStrokeRef.current || shapeDraftRef.current) return
 
-    setIsDrawing(true)
-    const point = getMousePos(e)
-    setCurrentStroke([point])
+    e.preventDefault()
+    if (tool === 'fill') {
+      fillAt(getPointerPos(e))
+      return
+    }
 
-    const canvas = canvasRef.current
-    if (!canvas) return
+    if (tool === 'eyedropper') {
+      pickColorAt(getPointerPos(e))
+      return
+    }
 
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
+    if (isShapeTool(tool)) {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      const { x, y } = getPointerPos(e)
+      shapeDraftRef.current = {
+        pointerId: e.pointerId,
+        shape: {
+          kind: 'shape',
+          shape: tool,
+          from: { x, y },
+          to: { x, y },
+          color: drawColor,
+          size: brushSize[0],
+          filled: shapeFilled && tool !== 'line'
+        }
+      }
+      return
+    }
 
-    ctx.beginPath()
-    ctx.moveTo(point.x, point.y)
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setIsDrawing(true)
+    const point = getPointerPos(e)
+    const strokeId = `stroke_${Date.now()}_${Math.random()}`
+    ownStrokesRef.current.add(strokeId)
+    liveStrokeRef.current = {
+      id: strokeId,
+      pointerId: e.pointerId,
+      style: { color: isEraser ? '#ffffff' : drawColor, size: brushSize[0], isEraser },
+      points: [point],
+      sent: 0,
+      seq: 0
+    }
   }
 
-  const draw = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || !canDraw) return
-
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const point = getMousePos(e)
-    setCurrentStroke(prev => [...prev, point])
-
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    ctx.strokeStyle = isEraser ? '#ffffff' : currentColor
-    ctx.lineWidth = brushSize[0]
-    ctx.lineCap = 'round'
-    ctx.lineJoin = 'round'
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const draft = shapeDraftRef.current
+    if (draft) {
+      if (e.pointerId !== draft.pointerId) return
+      const { x, y } = getPointerPos(e)
+      draft.shape.to = { x, y }
+
+      // Rubber band: only the overlay is redrawn while dragging
+      const overlay = overlayRef.current
+      clearOverlay(overlay)
+      const ctx = overlay?.getContext('2d')
+      if (ctx) drawShape(ctx, draft.shape)
+      return
+    }
 
-    if (isEraser) {
-      ctx.globalCompositeOperation = 'destination-out'
+    const live = liveStrokeRef.current
+    if (!isDrawing || !canDraw || !live || e.pointerId !== live.pointerId) return
+
+    // Browsers batch fast pen and touch movement into one event per frame
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? []
+    const points = (events.length > 0 ? events : [e]).map(getPointerPos)
+    if (opacityOf(live.style.color) < 1) {
+      // Redrawn whole on the overlay, so the segments don't darken where they meet
+      const overlay = overlayRef.current
+      clearOverlay(overlay)
+      const ctx = overlay?.getContext('2d')
+      if (ctx) drawPath(ctx, live.style, [...live.points, ...points])
     } else {
-      ctx.globalCompositeOperation = 'source-over'
+      const ctx = canvasRef.current?.getContext('2d')
+      if (ctx) drawPath(ctx, live.style, points, live.points[live.points.length - 1])
+    }
+    live.points.push(...points)
+    if (!flushTimerRef.current) {
+      flushTimerRef.current = setTimeout(flushStroke, STROKE_BATCH_MS)
     }
-
-    ctx.lineTo(point.x, point.y)
-    ctx.stroke()
-    ctx.beginPath()
-    ctx.moveTo(point.x, point.y)
   }
 
-  const stopDrawing = async () => {
-    if (!isDrawing || !canDraw || currentStroke.length < 2) {
-      setIsDrawing(false)
-      setCurrentStroke([])
+  const stopDrawing = async (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const draft = shapeDraftRef.current
+    if (draft) {
+      if (e.pointerId !== draft.pointerId) return
+      shapeDraftRef.current = null
+      clearOverlay(overlayRef.current)
+
+      const { from, to } = draft.shape
+      const ctx = canvasRef.current?.getContext('2d')
+      // A click without a drag, or a cancelled drag, draws nothing
+      if (!ctx || e.type === 'pointercancel' || Math.hypot(to.x - from.x, to.y - from.y) < 2) return
+      drawShape(ctx, draft.shape)
+
+      const shapeId = `stroke_${Date.now()}_${Math.random()}`
+      ownStrokesRef.current.add(shapeId)
+      await saveOperation(shapeId, draft.shape)
       return
     }
 
+    const live = liveStrokeRef.current
+    if (live && e.pointerId !== live.pointerId) return
     setIsDrawing(false)
-
-    // Save stroke to database
-    const strokeData: StrokeData = {
-      points: currentStroke,
-      color: isEraser ? '#ffffff' : currentColor,
-      size: brushSize[0],
-      isEraser
+    clearOverlay(overlayRef.current)
+    if (!live || !canDraw || live.points.length < 2) {
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current)
+      flushTimerRef.current = null
+      liveStrokeRef.current = null
+      return
     }
 
-    try {
-      const strokeId = `stroke_${Date.now()}_${Math.random()}`
-      await blink.db.drawingStrokes.create({
-        id: strokeId,
-        roomId,
-        roundNumber: currentRound,
-        strokeData: JSON.stringify(strokeData)
-      })
+    // Watchers get the tail of the stroke before it is saved
+    await flushStroke()
+    liveStrokeRef.current = null
 
-      // Notify other players about new stroke
-      await blink.realtime.publish(`drawing_${roomId}`, 'new_stroke', {
-        strokeId,
-        roundNumber: currentRound
-      })
-
-      setCurrentStroke([])
-    } catch (error) {
-      console.error('Error saving stroke:', error)
+    const strokeData: StrokeData = { kind: 'stroke', ...live.style, points: live.points }
+    if (opacityOf(strokeData.color) < 1) {
+      const ctx = canvasRef.current?.getContext('2d')
+      if (ctx) drawPath(ctx, strokeData, strokeData.points)
     }
+    await saveOperation(live.id, strokeData)
   }
 
   const clearCanvas = async () => {
     if (!canDraw) return
 
     try {
+      await saveQueueRef.current
+
       // Delete all strokes for current round
-      const currentStrokes = await blink.db.drawingStrokes.list({
-        where: { roomId, roundNumber: currentRound }
-      })
+      const currentStrokes = await repo.strokes.listByRound(roomId, currentRound)
 
       for (const stroke of currentStrokes) {
-        await blink.db.drawingStrokes.delete(stroke.id)
+        await repo.strokes.delete(stroke.id)
       }
 
       // Clear canvas visually
-      const canvas = canvasRef.current
-      if (!canvas) return
-
-      const ctx = canvas.getContext('2d')
-      if (!ctx) return
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-      ctx.fillStyle = '#ffffff'
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-      setStrokes([])
+      replaceStrokes([])
+      redrawCanvas([])
 
       // Notify other players about canvas clear
-      await blink.realtime.publish(`drawing_${roomId}`, 'canvas_cleared', {
+      await backend.realtime.publish(drawingChannel(roomId), 'canvas_cleared', {
         roundNumber: currentRound
       })
     } catch (error) {
@@ -296,23 +670,39 @@ export function DrawingCanvas({ roomId, canDraw, currentRound }: DrawingCanvasPr
     if (!canDraw || strokes.length === 0) return
 
     try {
+      // Its save may still be on the way
+      await saveQueueRef.current
+
       // Remove the last stroke
-      const lastStroke = strokes[strokes.length - 1]
-      await blink.db.drawingStrokes.delete(lastStroke.id)
+      const lastStroke = strokesRef.current[strokesRef.current.length - 1]
+      if (!lastStroke) return
+      await repo.strokes.delete(lastStroke.id)
 
-      // Reload and redraw
-      loadStrokes()
+      // Redraw from what is already here
+      const next = strokesRef.current.filter(stroke => stroke.id !== lastStroke.id)
+      replaceStrokes(next)
+      redrawCanvas(next)
 
       // Notify other players
-      await blink.realtime.publish(`drawing_${roomId}`, 'new_stroke', {
-        action: 'undo',
-        roundNumber: currentRound
-      })
+      const payload: StrokeUndonePayload = { roundNumber: currentRound, strokeId: lastStroke.id }
+      await backend.realtime.publish(drawingChannel(roomId), 'stroke_undone', payload)
     } catch (error) {
       console.error('Error undoing stroke:', error)
     }
   }
 
+  const describeTool = () => {
+    if (tool === 'eyedropper') return 'Eyedropper - click the drawing to pick its color'
+    if (isEraser) return `Eraser - ${brushSize[0]}px`
+
+    const seeThrough = opacity < 1 ? ` - ${Math.round(opacity * 100)}% opacity` : ''
+    if (tool === 'fill') return `Bucket - tolerance ${fillTolerance[0]}${seeThrough}`
+    const name = isShapeTool(tool)
+      ? `${SHAPE_TOOLS.find(({ shape }) => shape === tool)?.label}${tool !== 'line' && shapeFilled ? ' (filled)' : ''}`
+      : 'Brush'
+    return `${name} - ${brushSize[0]}px${seeThrough}`
+  }
+
   return (
     <Card className="p-4 h-full flex flex-col">
       {/* Drawing Tools */}
@@ -323,29 +713,76 @@ export function DrawingCanvas({ roomId, canDraw, currentRound }: DrawingCanvasPr
             {COLORS.map((color) => (
               <button
                 key={color}
-                className={`w-8 h-8 rounded-full border-2 transition-all hover:scale-110 ${ 
-                  currentColor === color && !isEraser
+                className={`w-6 h-6 rounded-full border-2 transition-all hover:scale-110 ${ 
+                  currentColor.toLowerCase() === color.toLowerCase() && !isEraser
                     ? 'border-gray-800 scale-110 ring-2 ring-primary'
                     : 'border-gray-300'
                 }`}
                 style={{ backgroundColor: color }}
                 onClick={() => {
                   setCurrentColor(color)
-                  setIsEraser(false)
+                  if (isEraser) setTool('brush')
                 }}
               />
             ))}
+
+            {/* Any other color, opacity and the eyedropper */}
+            <ColorPicker
+              color={currentColor}
+              opacity={opacity}
+              eyedropperActive={tool === 'eyedropper'}
+              onColorChange={(color) => {
+                setCurrentColor(color)
+                if (isEraser) setTool('brush')
+              }}
+              onOpacityChange={setOpacity}
+              onEyedropper={() => setTool(tool === 'eyedropper' ? 'brush' : 'eyedropper')}
+            />
             
             {/* Eraser */}
             <Button
               variant={isEraser ? 'default' : 'outline'}
               size="sm"
-              onClick={() => setIsEraser(!isEraser)}
+              onClick={() => setTool(isEraser ? 'brush' : 'eraser')}
               className="ml-2"
             >
               <Eraser className="h-4 w-4" />
             </Button>
 
+            {/* Bucket Fill */}
+            <Button
+              variant={tool === 'fill' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setTool(tool === 'fill' ? 'brush' : 'fill')}
+              className="ml-1"
+            >
+              <PaintBucket className="h-4 w-4" />
+            </Button>
+
+            {/* Shapes */}
+            {SHAPE_TOOLS.map(({ shape, label, icon }) => (
+              <Button
+                key={shape}
+                variant={tool === shape ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool(tool === shape ? 'brush' : shape)}
+                className="ml-1"
+                title={label}
+              >
+                {icon}
+              </Button>
+            ))}
+            {(tool === 'rectangle' || tool === 'ellipse') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShapeFilled(!shapeFilled)}
+                className="ml-1"
+              >
+                {shapeFilled ? 'Filled' : 'Outline'}
+              </Button>
+            )}
+
             {/* Undo */}
             <Button
               variant="outline"
@@ -368,33 +805,70 @@ export function DrawingCanvas({ roomId, canDraw, currentRound }: DrawingCanvasPr
             </Button>
           </div>
 
-          {/* Brush Size */}
-          <div className="flex items-center gap-4">
-            <span className="text-sm font-medium">Size:</span>
-            <div className="flex-1 max-w-32">
-              <Slider
-                value={brushSize}
-                onValueChange={setBrushSize}
-                max={20}
-                min={1}
-                step={1}
-                className="w-full"
-              />
+          {/* Recent Colors */}
+          {recent.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <History className="h-4 w-4 text-muted-foreground" />
+              {recent.map((color) => (
+                <button
+                  key={color}
+                  className="w-6 h-6 rounded-full border-2 border-gray-300 transition-all hover:scale-110"
+                  style={{ backgroundColor: color }}
+                  title={color}
+                  onClick={() => {
+                    setCurrentColor(opaqueColor(color))
+                    setOpacity(opacityOf(color))
+                    if (isEraser || tool === 'eyedropper') setTool('brush')
+                  }}
+                />
+              ))}
             </div>
-            <span className="text-sm text-muted-foreground w-8">{brushSize[0]}px</span>
-          </div>
+          )}
+
+          {/* Brush Size, or how far the bucket spreads */}
+          {tool === 'fill' ? (
+            <div className="flex items-center gap-4">
+              <span className="text-sm font-medium">Tolerance:</span>
+              <div className="flex-1 max-w-32">
+                <Slider
+                  value={fillTolerance}
+                  onValueChange={setFillTolerance}
+                  max={128}
+                  min={0}
+                  step={8}
+                  className="w-full"
+                />
+              </div>
+              <span className="text-sm text-muted-foreground w-8">{fillTolerance[0]}</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-4">
+              <span className="text-sm font-medium">Size:</span>
+              <div className="flex-1 max-w-32">
+                <Slider
+                  value={brushSize}
+                  onValueChange={setBrushSize}
+                  max={20}
+                  min={1}
+                  step={1}
+                  className="w-full"
+                />
+              </div>
+              <span className="text-sm text-muted-foreground w-8">{brushSize[0]}px</span>
+            </div>
+          )}
 
           {/* Current Tool Display */}
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <div 
               className="w-4 h-4 rounded-full border"
               style={{ 
-                backgroundColor: isEraser ? '#f0f0f0' : currentColor,
+                backgroundColor: isEraser ? '#f0f0f0' : drawColor,
                 borderColor: isEraser ? '#ccc' : currentColor
               }}
             />
             <span>
-              {isEraser ? 'Eraser' : 'Brush'} - {brushSize[0]}px
+              {describeTool()}
             </span>
           </div>
         </div>
@@ -407,14 +881,24 @@ export function DrawingCanvas({ roomId, canDraw, currentRound }: DrawingCanvasPr
           width={800}
           height={600}
           className="w-full h-full"
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={stopDrawing}
-          onMouseLeave={stopDrawing}
+          onPointerDown={startDrawing}
+          onPointerMove={draw}
+          onPointerUp={stopDrawing}
+          onPointerCancel={stopDrawing}
           style={{
-            cursor: canDraw ? (isEraser ? 'grab' : 'crosshair') : 'not-allowed'
+            cursor: canDraw
+              ? (isEraser ? 'grab' : tool === 'fill' ? 'cell' : tool === 'eyedropper' ? 'copy' : 'crosshair')
+              : 'not-allowed',
+            // Lets touches draw instead of scrolling or zooming the page
+            touchAction: canDraw ? 'none' : 'auto'
           }}
         />
+        <canvas
+          ref={overlayRef}
+          width={800}
+          height={600}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
         
         {!canDraw && (
           <div className="absolute inset-0 bg-black/10 flex items-center justify-center">
@@ -1,16 +1,20 @@
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-import { Clock, Users, LogOut, Star, Zap, Trophy, Shield } from 'lucide-react'
+import { Clock, Users, LogOut, Star, Zap, Trophy, Shield, Tag } from 'lucide-react'
+import { useCountdown } from '../hooks/use-countdown'
 
 interface GameHeaderProps {
   roomCode: string
   currentRound: number
   maxRounds: number
-  timeLeft: number
+  // Deadline of the running round; the countdown is hidden without one.
+  roundEndsAt: string | null
   gameState: 'waiting' | 'playing' | 'finished'
   difficulty?: string
   teamMode?: boolean
   customWords?: boolean
+  // Names of the word categories the host picked.
+  categories?: string[]
   onLeaveRoom: () => void
 }
 
@@ -18,13 +22,16 @@ export function GameHeader({
   roomCode, 
   currentRound, 
   maxRounds, 
-  timeLeft, 
+  roundEndsAt,
   gameState,
   difficulty = 'medium',
   teamMode = false,
   customWords = false,
+  categories = [],
   onLeaveRoom 
 }: GameHeaderProps) {
+  const timeLeft = useCountdown(roundEndsAt)
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -96,6 +103,14 @@ export function GameHeader({
                 Custom
               </Badge>
             )}
+
+            {/* Word Categories */}
+            {categories.map((name, index) => (
+              <Badge key={`${index}-${name}`} variant="outline" className="text-xs flex items-center gap-1">
+                <Tag className="h-3 w-3" />
+                {name}
+              </Badge>
+            ))}
           </div>
 
           {/* Round Counter */}
@@ -107,7 +122,7 @@ export function GameHeader({
           </div>
 
           {/* Timer */}
-          {gameState === 'playing' && (
+          {gameState === 'playing' && roundEndsAt && (
             <div className="flex items-center gap-2">
               <Clock className="h-4 w-4 text-muted-foreground" />
               <span className={`text-lg font-mono font-bold ${getTimerColor()}`}>
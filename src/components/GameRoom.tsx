@@ -1,10 +1,27 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { blink } from '../blink/client'
+import { backend } from '../backend'
+import { repo } from '../data'
+import { createRoomAuthority, type RoomAuthority } from '../game/authority'
+import { holdAuthorityLease } from '../game/authority-lease'
+import { listenPrivately, receiveLocally } from '../game/private-messages'
+import {
+  roomChannel,
+  sendGameEvent,
+  type GameIntent,
+  type SecretWordPayload,
+  type WordChoicesPayload,
+  type WordsRunningOutPayload
+} from '../game/protocol'
+import { teamTotals } from '../game/scoring'
+import { createLocalSecrets } from '../game/secrets'
+import { createId } from '../lib/ids'
+import type { GameRoom as GameRoomRecord, RoomPlayer, ScoreLine, WordCategory } from '../types/game'
 import { DrawingCanvas } from './DrawingCanvas'
 import { PlayerList } from './PlayerList'
 import { ChatArea } from './ChatArea'
 import { GameHeader } from './GameHeader'
 import { WordDisplay } from './WordDisplay'
+import { WordSourcePicker } from './WordSourcePicker'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
 import { Badge } from './ui/badge'
@@ -16,172 +33,46 @@ interface GameRoomProps {
   onLeaveRoom: () => void
 }
 
-interface Player {
-  id: string
-  userId: string
-  displayName: string
-  score: number
-  isReady: boolean
-}
-
-interface GameRoom {
-  id: string
-  roomCode: string
-  hostUserId: string
-  currentRound: number
-  maxRounds: number
-  roundTime: number
-  currentDrawerId: string | null
-  currentWord: string | null
-  gameState: 'waiting' | 'playing' | 'finished'
-  roundStartTime: string | null
-}
-
 export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
-  const [room, setRoom] = useState<GameRoom | null>(null)
-  const [players, setPlayers] = useState<Player[]>([])
+  const [room, setRoom] = useState<GameRoomRecord | null>(null)
+  const [players, setPlayers] = useState<RoomPlayer[]>([])
   const [user, setUser] = useState<any>(null)
   const [loading, setLoading] = useState(true)
-  const [timeLeft, setTimeLeft] = useState(0)
   const [isDrawer, setIsDrawer] = useState(false)
   const [roundWinners, setRoundWinners] = useState<string[]>([])
+  const [revealedWord, setRevealedWord] = useState<string | null>(null)
+  const [roundBreakdown, setRoundBreakdown] = useState<ScoreLine[]>([])
+  // Only ever set on the drawer's client, straight from the room authority.
+  const [secretWord, setSecretWord] = useState<SecretWordPayload | null>(null)
+  const [wordChoices, setWordChoices] = useState<WordChoicesPayload | null>(null)
   const [showCelebration, setShowCelebration] = useState(false)
-  const timerRef = useRef<NodeJS.Timeout>()
+  const [categories, setCategories] = useState<WordCategory[]>([])
   const realtimeChannelRef = useRef<any>(null)
-
-  const getRandomWord = useCallback(async (): Promise<string> => {
-    try {
-      // Check if room has custom words
-      if (room?.customWords) {
-        const customWordList = room.customWords.split(',')
-        return customWordList[Math.floor(Math.random() * customWordList.length)]
-      }
-
-      // Get words based on difficulty
-      const categories = await blink.db.wordCategories.list({
-        where: { difficulty: room?.difficulty || 'medium' }
-      })
-      
-      if (categories.length === 0) return 'cat' // fallback
-      
-      // Pick random category and word
-      const randomCategory = categories[Math.floor(Math.random() * categories.length)]
-      const words = randomCategory.words.split(',')
-      return words[Math.floor(Math.random() * words.length)]
-    } catch (error) {
-      console.error('Error getting random word:', error)
-      return 'cat' // fallback
-    }
-  }, [room?.customWords, room?.difficulty])
-
-  const startTimer = useCallback((duration: number) => {
-    if (timerRef.current) clearInterval(timerRef.current)
-    
-    setTimeLeft(duration)
-    timerRef.current = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(timerRef.current)
-          return 0
-        }
-        return prev - 1
-      })
-    }, 1000)
-  }, [])
-
-  const nextRound = useCallback(async () => {
-    if (!room || !user) return
-
-    try {
-      const nextRoundNumber = room.currentRound + 1
-      const nextDrawerIndex = players.findIndex(p => p.userId === room.currentDrawerId) + 1
-      const nextDrawer = players[nextDrawerIndex % players.length]
-
-      if (nextRoundNumber > room.maxRounds) {
-        // Game finished
-        await blink.db.gameRooms.update(room.id, {
-          gameState: 'finished'
-        })
-
-        await blink.realtime.publish(`room_${room.id}`, 'room_update', {
-          action: 'game_finished'
-        })
-
-        toast.success('Game finished!')
-        return
-      }
-
-      const randomWord = await getRandomWord()
-
-      await blink.db.gameRooms.update(room.id, {
-        currentRound: nextRoundNumber,
-        currentDrawerId: nextDrawer.userId,
-        currentWord: randomWord,
-        roundStartTime: new Date().toISOString()
-      })
-
-      // Create new game stats entry
-      await blink.db.gameStats.create({
-        id: `stats_${room.id}_${nextRoundNumber}`,
-        roomId: room.id,
-        roundNumber: nextRoundNumber,
-        drawerId: nextDrawer.userId,
-        word: randomWord,
-        correctGuessers: '[]'
-      })
-
-      // Notify all players
-      await blink.realtime.publish(`room_${room.id}`, 'room_update', {
-        action: 'next_round',
-        drawer: nextDrawer.displayName,
-        round: nextRoundNumber
-      })
-
-      startTimer(room.roundTime)
-    } catch (error) {
-      console.error('Error advancing round:', error)
-    }
-  }, [room, user, players, startTimer, getRandomWord])
+  // The room authority, when this tab is the one running it.
+  const authorityRef = useRef<RoomAuthority | null>(null)
 
   const loadGameRoom = useCallback(async () => {
     try {
       // Load room data
-      const roomData = await blink.db.gameRooms.list({
-        where: { roomCode },
-        limit: 1
-      })
+      const gameRoom = await repo.rooms.getByCode(roomCode)
 
-      if (roomData.length === 0) {
+      if (!gameRoom) {
         throw new Error('Room not found')
       }
 
-      const gameRoom = roomData[0] as any
       setRoom(gameRoom)
 
       // Load players
-      const playersData = await blink.db.roomPlayers.list({
-        where: { roomId: gameRoom.id },
-        orderBy: { score: 'desc' }
-      })
+      const playersData = await repo.players.listByRoom(gameRoom.id)
 
-      setPlayers(playersData as Player[])
+      setPlayers(playersData)
       setIsDrawer(gameRoom.currentDrawerId === user?.id)
-      
-      // Set up timer if game is playing
-      if (gameRoom.gameState === 'playing' && gameRoom.roundStartTime) {
-        const elapsed = Math.floor((Date.now() - new Date(gameRoom.roundStartTime).getTime()) / 1000)
-        const remaining = Math.max(0, gameRoom.roundTime - elapsed)
-        if (remaining > 0) {
-          startTimer(remaining)
-        }
-      }
-
       setLoading(false)
     } catch (error) {
       console.error('Error loading game room:', error)
       setLoading(false)
     }
-  }, [roomCode, user?.id, startTimer])
+  }, [roomCode, user?.id])
 
   // Set up real-time synchronization
   useEffect(() => {
@@ -190,13 +81,19 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
     const setupRealtime = async () => {
       try {
         // Subscribe to room updates
-        const unsubscribe = await blink.realtime.subscribe(`room_${room.id}`, (message) => {
+        const unsubscribe = await backend.realtime.subscribe(roomChannel(room.id), (message) => {
           if (message.type === 'room_update') {
             loadGameRoom()
           } else if (message.type === 'player_update') {
             loadGameRoom()
           } else if (message.type === 'round_end') {
+            loadGameRoom()
             setRoundWinners(message.data.winners || [])
+            setRevealedWord(message.data.correctWord || null)
+            setRoundBreakdown([])
+            repo.stats.getRound(room.id, message.data.game, message.data.round)
+              .then(stats => setRoundBreakdown(stats?.breakdown ?? []))
+              .catch(error => console.error('Error loading round scores:', error))
             setShowCelebration(true)
             setTimeout(() => setShowCelebration(false), 3000)
             toast.success('Round ended!', {
@@ -204,8 +101,6 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
                 ? `${message.data.winners.length} player(s) guessed correctly!`
                 : 'Time\'s up! Moving to next round.'
             })
-            // Auto advance to next round after celebration
-            setTimeout(() => nextRound(), 3000)
           } else if (message.type === 'correct_guess') {
             toast.success(`🎉 ${message.data.playerName} guessed correctly!`)
           }
@@ -224,10 +119,113 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
         realtimeChannelRef.current()
       }
     }
-  }, [room?.id, loadGameRoom, nextRound])
+  }, [room?.id, loadGameRoom])
+
+  // Private messages: the drawer receives their choices and the word, nobody
+  // else does. The host also hears when the room runs low on words.
+  const receivePrivate = useCallback((type: string, data: any) => {
+    if (type === 'secret_word') {
+      setSecretWord(data as SecretWordPayload)
+    } else if (type === 'word_choices') {
+      setWordChoices(data as WordChoicesPayload)
+    } else if (type === 'words_running_out') {
+      const { reused } = data as WordsRunningOutPayload
+      toast.warning('Running out of words', {
+        description: reused === 'this_room'
+          ? 'Words from earlier rounds are coming up again. Add categories or custom words for more.'
+          : 'Some words from players\' recent games are coming up again.'
+      })
+    }
+  }, [])
+
+  // Unless the backend runs it server-side, one client runs the room
+  // authority and alone advances rounds: whichever tab holds the lease on the
+  // room row. That is the drawer's while they choose and draw, so the word
+  // is handed straight to them and never sent anywhere, and the host's
+  // otherwise.
+  const isPlayer = players.some(p => p.userId === user?.id)
+  useEffect(() => {
+    if (!room?.id || !user?.id || !isPlayer || backend.authority !== 'client') return
+
+    const roomId = room.id
+    const userId = user.id
+    const lease = holdAuthorityLease({
+      backend,
+      repo,
+      roomId,
+      holderId: createId(userId),
+      userId,
+      onAcquired: () => {
+        authorityRef.current = createRoomAuthority({
+          backend,
+          repo,
+          roomId,
+          secrets: createLocalSecrets(),
+          localPlayer: {
+            userId,
+            receive: (type, data) => receiveLocally(roomId, userId, type, data),
+            handOver: () => lease.standDown()
+          }
+        })
+      },
+      onLost: () => {
+        authorityRef.current?.stop()
+        authorityRef.current = null
+      }
+    })
+    return () => lease.release()
+  }, [room?.id, user?.id, isPlayer])
+
+  // From the authority in this tab, or over the player's own channel.
+  useEffect(() => {
+    if (!room?.id || !user?.id) return
+    return listenPrivately(backend.realtime, room.id, user.id, receivePrivate)
+  }, [room?.id, user?.id, receivePrivate])
+
+  // A drawer who reloads mid-round asks the authority for the word, or the
+  // choices, again.
+  const needsWord = !!room && isDrawer && (
+    (room.phase === 'drawing' && secretWord?.round !== room.currentRound) ||
+    (room.phase === 'choosing_word' && wordChoices?.round !== room.currentRound)
+  )
+  const roomId = room?.id
+  const currentRound = room?.currentRound
+  const userId = user?.id
+  useEffect(() => {
+    if (!needsWord || !roomId || !userId || !currentRound) return
+
+    sendGameEvent(backend.realtime, roomId, { type: 'request_word', round: currentRound })
+      .catch(error => console.error('Error requesting word:', error))
+  }, [needsWord, roomId, currentRound, userId])
+
+  // Tells the room authority this player is here, and that they have gone
+  // when the tab closes or they leave the room. It waits a moment before
+  // acting on a leave, so a reload or a quick return doesn't count.
+  useEffect(() => {
+    if (!roomId || !userId || !isPlayer) return
+
+    const announce = (action: 'joined' | 'left') => {
+      backend.realtime.publish(roomChannel(roomId), 'player_update', { action, playerId: userId })
+        .catch(error => console.error('Error announcing player:', error))
+    }
+    const onPageHide = () => announce('left')
+    // Pages restored from the back-forward cache don't mount again
+    const onPageShow = (e: PageTransitionEvent) => {
+      if (e.persisted) announce('joined')
+    }
+
+    announce('joined')
+    window.addEventListener('pagehide', onPageHide)
+    window.addEventListener('pageshow', onPageShow)
+    return () => {
+      window.removeEventListener('pagehide', onPageHide)
+      window.removeEventListener('pageshow', onPageShow)
+      announce('left')
+    }
+  }, [roomId, userId, isPlayer])
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = backend.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       if (state.user && !state.isLoading) {
         loadGameRoom()
@@ -236,21 +234,35 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
     return unsubscribe
   }, [loadGameRoom])
 
+  // Category names for the header, and for the host to pick from in the lobby
+  useEffect(() => {
+    let cancelled = false
+    repo.wordCategories.list()
+      .then(list => !cancelled && setCategories(list))
+      .catch(error => console.error('Error loading word categories:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
   const joinRoom = async () => {
     if (!user || !room) return
 
     try {
-      await blink.db.roomPlayers.create({
-        id: `player_${user.id}_${room.id}`,
+      await repo.players.create({
+        id: `${room.id}_${user.id}`,
         roomId: room.id,
         userId: user.id,
         displayName: user.email?.split('@')[0] || 'Player',
         score: 0,
-        isReady: false
+        isReady: false,
+        isDrawing: false,
+        team: null,
+        leftAt: null
       })
 
       // Notify other players
-      await blink.realtime.publish(`room_${room.id}`, 'player_update', {
+      await backend.realtime.publish(roomChannel(room.id), 'player_update', {
         action: 'joined',
         playerId: user.id
       })
@@ -263,76 +275,40 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
     }
   }
 
-  const startGame = async () => {
-    if (!room || !user || room.hostUserId !== user.id || players.length < 2) return
+  const chooseWord = async (word: string) => {
+    if (!room || !user) return
 
     try {
-      // Pick first drawer and word
-      const firstDrawer = players[0]
-      const randomWord = await getRandomWord()
-
-      await blink.db.gameRooms.update(room.id, {
-        gameState: 'playing',
-        currentDrawerId: firstDrawer.userId,
-        currentWord: randomWord,
-        currentRound: 1,
-        roundStartTime: new Date().toISOString()
-      })
-
-      // Create game stats entry
-      await blink.db.gameStats.create({
-        id: `stats_${room.id}_1`,
-        roomId: room.id,
-        roundNumber: 1,
-        drawerId: firstDrawer.userId,
-        word: randomWord,
-        correctGuessers: '[]'
-      })
-
-      // Notify all players
-      await blink.realtime.publish(`room_${room.id}`, 'room_update', {
-        action: 'game_started',
-        drawer: firstDrawer.displayName,
-        round: 1
-      })
-
-      startTimer(room.roundTime)
-      toast.success('Game started!')
+      const intent: GameIntent = { type: 'choose_word', round: room.currentRound, word }
+      // Published, the word would reach anyone listening on the room.
+      if (authorityRef.current) authorityRef.current.submit(intent)
+      else await sendGameEvent(backend.realtime, room.id, intent)
     } catch (error) {
-      console.error('Error starting game:', error)
-      toast.error('Failed to start game')
+      console.error('Error choosing word:', error)
+      toast.error('Failed to choose word')
     }
   }
 
-  const awardPoints = async (playerId: string, points: number) => {
-    try {
-      const player = players.find(p => p.userId === playerId)
-      if (!player) return
-
-      await blink.db.roomPlayers.update(player.id, {
-        score: player.score + points
-      })
+  const updateWords = async (change: { categoryIds: string[]; customWordShare: number }) => {
+    if (!room || !user || room.hostUserId !== user.id) return
 
-      // Update game stats with correct guesser
-      const currentStats = await blink.db.gameStats.list({
-        where: { roomId: room!.id, roundNumber: room!.currentRound },
-        limit: 1
-      })
+    try {
+      await sendGameEvent(backend.realtime, room.id, { type: 'update_words', ...change })
+    } catch (error) {
+      console.error('Error updating word categories:', error)
+      toast.error('Failed to update word categories')
+    }
+  }
 
-      if (currentStats.length > 0) {
-        const stats = currentStats[0] as any
-        const correctGuessers = JSON.parse(stats.correctGuessers || '[]')
-        if (!correctGuessers.includes(playerId)) {
-          correctGuessers.push(playerId)
-          await blink.db.gameStats.update(stats.id, {
-            correctGuessers: JSON.stringify(correctGuessers)
-          })
-        }
-      }
+  const startGame = async () => {
+    if (!room || !user || room.hostUserId !== user.id || players.length < 2) return
 
-      loadGameRoom()
+    try {
+      await sendGameEvent(backend.realtime, room.id, { type: 'start_game' })
+      toast.success('Game started!')
     } catch (error) {
-      console.error('Error awarding points:', error)
+      console.error('Error starting game:', error)
+      toast.error('Failed to start game')
     }
   }
 
@@ -363,6 +339,19 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
   const isHost = room.hostUserId === user?.id
   const currentDrawer = players.find(p => p.userId === room.currentDrawerId)
 
+  const getStatusText = () => {
+    switch (room.phase) {
+      case 'choosing_word':
+        return isDrawer ? 'Picking your word...' : `${currentDrawer?.displayName} is choosing a word`
+      case 'reveal':
+        return 'Round over!'
+      case 'intermission':
+        return 'Next round starting soon...'
+      default:
+        return isDrawer ? 'Your turn to draw!' : `${currentDrawer?.displayName} is drawing`
+    }
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Celebration Overlay */}
@@ -371,6 +360,11 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
           <div className="bg-white rounded-2xl p-8 text-center animate-bounce">
             <Trophy className="h-16 w-16 text-yellow-500 mx-auto mb-4" />
             <h2 className="text-2xl font-heading text-primary mb-2">Round Complete!</h2>
+            {revealedWord && (
+              <p className="text-lg font-heading mb-2">
+                The word was <span className="text-primary">{revealedWord.toUpperCase()}</span>
+              </p>
+            )}
             {roundWinners.length > 0 ? (
               <p className="text-muted-foreground">
                 {roundWinners.length} player(s) guessed correctly! 🎉
@@ -378,6 +372,25 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
             ) : (
               <p className="text-muted-foreground">Time's up! Moving to next round...</p>
             )}
+            {roundBreakdown.length > 0 && (
+              <div className="mt-4 space-y-1 text-left w-64 mx-auto">
+                {roundBreakdown.map((line) => (
+                  <div key={`${line.role}_${line.userId}`} className="flex justify-between gap-4 text-sm">
+                    <span title={line.parts.map(part => `${part.label}: +${part.points}`).join('\n')}>
+                      {players.find(p => p.userId === line.userId)?.displayName ?? 'Player'}
+                      {line.role === 'drawer' && <span className="text-muted-foreground"> (drawer)</span>}
+                    </span>
+                    <span className="font-mono text-primary">+{line.points}</span>
+                  </div>
+                ))}
+                {room.teamMode && (
+                  <div className="flex justify-between gap-4 text-sm font-medium border-t pt-1">
+                    <span className="text-red-600">Red +{teamTotals(roundBreakdown).red}</span>
+                    <span className="text-blue-600">Blue +{teamTotals(roundBreakdown).blue}</span>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -386,11 +399,12 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
         roomCode={roomCode}
         currentRound={room.currentRound}
         maxRounds={room.maxRounds}
-        timeLeft={timeLeft}
+        roundEndsAt={room.phase === 'drawing' ? room.phaseEndsAt : null}
         gameState={room.gameState}
         difficulty={room.difficulty}
         teamMode={room.teamMode}
         customWords={!!room.customWords}
+        categories={categories.filter(category => room.categoryIds.includes(category.id)).map(category => category.name)}
         onLeaveRoom={onLeaveRoom}
       />
 
@@ -415,7 +429,7 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
                   <div className="flex items-center gap-2">
                     <Star className="h-5 w-5 text-yellow-500" />
                     <span className="font-medium">
-                      {isDrawer ? 'Your turn to draw!' : `${currentDrawer.displayName} is drawing`}
+                      {getStatusText()}
                     </span>
                   </div>
                   <Badge variant={isDrawer ? 'default' : 'secondary'}>
@@ -426,11 +440,17 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
             )}
 
             {/* Word Display */}
-            {room.gameState === 'playing' && (
+            {(room.phase === 'drawing' || room.phase === 'choosing_word') && (
               <WordDisplay 
-                word={room.currentWord}
+                word={isDrawer && secretWord?.round === room.currentRound ? secretWord.word : null}
+                mask={room.wordMask}
                 isDrawer={isDrawer}
                 gameState={room.gameState}
+                phase={room.phase}
+                drawerName={currentDrawer?.displayName ?? 'The drawer'}
+                choices={isDrawer && wordChoices?.round === room.currentRound ? wordChoices.choices : null}
+                choiceEndsAt={room.phase === 'choosing_word' ? room.phaseEndsAt : null}
+                onChooseWord={chooseWord}
               />
             )}
 
@@ -438,7 +458,7 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
             <div className="flex-1">
               <DrawingCanvas 
                 roomId={room.id}
-                canDraw={isDrawer && room.gameState === 'playing'}
+                canDraw={isDrawer && room.phase === 'drawing'}
                 currentRound={room.currentRound}
               />
             </div>
@@ -451,14 +471,26 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
                     Join Game
                   </Button>
                 ) : isHost ? (
-                  <Button 
-                    onClick={startGame} 
-                    size="lg" 
-                    className="font-heading"
-                    disabled={players.length < 2}
-                  >
-                    {players.length < 2 ? 'Need 2+ Players' : 'Start Game'}
-                  </Button>
+                  <div className="space-y-4">
+                    <Card className="p-4 text-left max-w-xl mx-auto">
+                      <h3 className="font-heading text-lg text-primary mb-3">Word Categories</h3>
+                      <WordSourcePicker
+                        categories={categories}
+                        categoryIds={room.categoryIds}
+                        customWordShare={room.customWordShare}
+                        hasCustomWords={!!room.customWords}
+                        onChange={updateWords}
+                      />
+                    </Card>
+                    <Button 
+                      onClick={startGame} 
+                      size="lg" 
+                      className="font-heading"
+                      disabled={players.length < 2}
+                    >
+                      {players.length < 2 ? 'Need 2+ Players' : 'Start Game'}
+                    </Button>
+                  </div>
                 ) : (
                   <p className="text-muted-foreground font-medium">
                     Waiting for host to start the game...
@@ -496,10 +528,11 @@ export function GameRoom({ roomCode, onLeaveRoom }: GameRoomProps) {
           <div className="lg:col-span-1">
             <ChatArea 
               roomId={room.id}
-              currentWord={room.currentWord}
+              round={room.currentRound}
+              wordMask={room.wordMask}
               isDrawer={isDrawer}
               gameState={room.gameState}
-              onCorrectGuess={awardPoints}
+              guessKey={room.guessKey}
             />
           </div>
         </div>
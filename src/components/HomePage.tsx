@@ -1,17 +1,35 @@
-import React, { useState, useEffect } from 'react'
-import { blink } from '../blink/client'
+import { useState, useEffect } from 'react'
+import { backend } from '../backend'
+import { repo } from '../data'
+import { roomChannel } from '../game/protocol'
+import { SCORING_PRESETS, type ScoringPreset } from '../game/scoring'
+import { seedDefaultWordPacks } from '../game/word-packs'
+import { MIN_CUSTOM_WORDS, checkWordList } from '../game/word-validation'
+import type { Difficulty, RoundEndMode, Team, WordCategory } from '../types/game'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
-import { Textarea } from './ui/textarea'
 import { Switch } from './ui/switch'
 import { Label } from './ui/label'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Badge } from './ui/badge'
+import { CustomWordsInput } from './CustomWordsInput'
+import { WordPackManager } from './WordPackManager'
+import { WordSourcePicker } from './WordSourcePicker'
+import { WordStatsReport } from './WordStatsReport'
 import { Palette, Users, Zap, Trophy, Gamepad2, Star } from 'lucide-react'
 import toast from 'react-hot-toast'
 
+type HintLevel = 'none' | 'some' | 'many'
+
+// When hint letters are revealed, as fractions of the round time.
+const HINT_SCHEDULES: Record<HintLevel, number[]> = {
+  none: [],
+  some: [0.5, 0.75],
+  many: [0.25, 0.5, 0.75]
+}
+
 interface HomePageProps {
   onJoinRoom: (roomCode: string) => void
 }
@@ -20,19 +38,48 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
   const [user, setUser] = useState<any>(null)
   const [loading, setLoading] = useState(true)
   const [joinCode, setJoinCode] = useState('')
-  const [difficulty, setDifficulty] = useState('medium')
+  const [difficulty, setDifficulty] = useState<Difficulty>('medium')
+  const [categories, setCategories] = useState<WordCategory[]>([])
+  const [categoryIds, setCategoryIds] = useState<string[]>([])
   const [customWords, setCustomWords] = useState('')
+  const [customWordShare, setCustomWordShare] = useState(0.5)
   const [teamMode, setTeamMode] = useState(false)
+  const [acceptPlurals, setAcceptPlurals] = useState(true)
+  const [roundEndMode, setRoundEndMode] = useState<RoundEndMode>('all_guessed')
+  const [scoringPreset, setScoringPreset] = useState<ScoringPreset>('classic')
+  const [wordChoiceCount, setWordChoiceCount] = useState(3)
+  const [recentGamesToAvoid, setRecentGamesToAvoid] = useState(0)
+  const [hintLevel, setHintLevel] = useState<HintLevel>('some')
   const [activeTab, setActiveTab] = useState('create')
 
+  const customWordsCheck = checkWordList(customWords)
+
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = backend.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
     })
     return unsubscribe
   }, [])
 
+  // Reloaded whenever the form is shown, since the Word Packs tab may have changed them
+  useEffect(() => {
+    if (!user || activeTab !== 'create') return
+
+    let cancelled = false
+    seedDefaultWordPacks(repo)
+      .then(() => repo.wordCategories.list())
+      .then((list) => {
+        if (cancelled) return
+        setCategories(list)
+        setCategoryIds(previous => previous.filter(id => list.some(category => category.id === id)))
+      })
+      .catch(error => console.error('Error loading word categories:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [user, activeTab])
+
   const generateRoomCode = () => {
     return Math.random().toString(36).substring(2, 8).toUpperCase()
   }
@@ -46,40 +93,58 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
       // Process custom words if provided
       let processedCustomWords = null
       if (customWords.trim()) {
-        const words = customWords
-          .split(/[,\n]/)
-          .map(word => word.trim().toLowerCase())
-          .filter(word => word.length > 0)
-        
-        if (words.length < 5) {
-          toast.error('Please provide at least 5 custom words')
+        if (customWordsCheck.problems.length > 0) {
+          toast.error('Please fix the highlighted custom words')
+          return
+        }
+        if (customWordsCheck.entries.length < MIN_CUSTOM_WORDS) {
+          toast.error(`Please provide at least ${MIN_CUSTOM_WORDS} custom words`)
           return
         }
-        processedCustomWords = words.join(',')
+        processedCustomWords = customWordsCheck.entries
       }
 
-      await blink.db.gameRooms.create({
+      await repo.rooms.create({
         id: roomCode,
-        hostId: user.id,
-        status: 'waiting',
+        roomCode,
+        hostUserId: user.id,
+        gameState: 'waiting',
+        phase: 'lobby',
+        gameNumber: 0,
         currentRound: 0,
         maxRounds: 3,
-        roundTimeLimit: 60,
+        roundTime: 60,
+        currentDrawerId: null,
+        wordMask: null,
+        lastWord: null,
+        roundStartTime: null,
+        phaseEndsAt: null,
         difficulty,
+        categoryIds,
         customWords: processedCustomWords,
+        customWordShare,
         teamMode,
-        createdAt: new Date().toISOString()
+        acceptPlurals,
+        roundEndMode,
+        wordChoiceCount,
+        recentGamesToAvoid,
+        hintSchedule: HINT_SCHEDULES[hintLevel],
+        scoring: SCORING_PRESETS[scoringPreset],
+        authorityId: null,
+        authorityLeaseUntil: null,
+        guessKey: null
       })
 
-      await blink.db.roomPlayers.create({
+      await repo.players.create({
         id: `${roomCode}_${user.id}`,
         roomId: roomCode,
         userId: user.id,
-        playerName: user.email?.split('@')[0] || 'Player',
+        displayName: user.email?.split('@')[0] || 'Player',
         score: 0,
+        isReady: false,
         isDrawing: false,
         team: teamMode ? 'red' : null,
-        joinedAt: new Date().toISOString()
+        leftAt: null
       })
 
       toast.success(`Room created! Code: ${roomCode}`)
@@ -94,55 +159,50 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
     if (!user || !joinCode.trim()) return
 
     try {
-      const rooms = await blink.db.gameRooms.list({
-        where: { id: joinCode.toUpperCase() }
-      })
+      const room = await repo.rooms.getByCode(joinCode)
 
-      if (rooms.length === 0) {
+      if (!room) {
         toast.error('Room not found')
         return
       }
 
-      const room = rooms[0]
-      if (room.status === 'finished') {
+      if (room.gameState === 'finished') {
         toast.error('This game has already finished')
         return
       }
 
       // Check if player already in room
-      const existingPlayer = await blink.db.roomPlayers.list({
-        where: { 
-          AND: [
-            { roomId: room.id },
-            { userId: user.id }
-          ]
-        }
-      })
+      const existingPlayer = await repo.players.find(room.id, user.id)
 
-      if (existingPlayer.length === 0) {
+      if (!existingPlayer) {
         // Determine team for new player in team mode
-        let playerTeam = null
+        let playerTeam: Team | null = null
         if (room.teamMode) {
-          const players = await blink.db.roomPlayers.list({
-            where: { roomId: room.id }
-          })
+          const players = await repo.players.listByRoom(room.id)
           const redTeamCount = players.filter(p => p.team === 'red').length
           const blueTeamCount = players.filter(p => p.team === 'blue').length
           playerTeam = redTeamCount <= blueTeamCount ? 'red' : 'blue'
         }
 
-        await blink.db.roomPlayers.create({
+        await repo.players.create({
           id: `${room.id}_${user.id}`,
           roomId: room.id,
           userId: user.id,
-          playerName: user.email?.split('@')[0] || 'Player',
+          displayName: user.email?.split('@')[0] || 'Player',
           score: 0,
+          isReady: false,
           isDrawing: false,
           team: playerTeam,
-          joinedAt: new Date().toISOString()
+          leftAt: null
         })
       }
 
+      // Also when coming back, so the authority deals them in again
+      await backend.realtime.publish(roomChannel(room.id), 'player_update', {
+        action: 'joined',
+        playerId: user.id
+      })
+
       toast.success('Joined room successfully!')
       onJoinRoom(room.id)
     } catch (error) {
@@ -208,7 +268,7 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
           </CardHeader>
           <CardContent>
             <Button 
-              onClick={() => blink.auth.login()} 
+              onClick={() => backend.auth.login()} 
               className="w-full bg-primary hover:bg-primary/90"
             >
               Sign In to Play
@@ -252,9 +312,11 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
         {/* Game Options */}
         <div className="max-w-2xl mx-auto">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="create">Create Room</TabsTrigger>
               <TabsTrigger value="join">Join Room</TabsTrigger>
+              <TabsTrigger value="words">Word Packs</TabsTrigger>
+              <TabsTrigger value="stats">Word Stats</TabsTrigger>
             </TabsList>
 
             <TabsContent value="create" className="space-y-6">
@@ -272,7 +334,7 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
                   {/* Difficulty Selection */}
                   <div className="space-y-3">
                     <Label className="text-base font-medium">Difficulty Level</Label>
-                    <Select value={difficulty} onValueChange={setDifficulty}>
+                    <Select value={difficulty} onValueChange={(value) => setDifficulty(value as Difficulty)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -310,6 +372,21 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
                     </div>
                   </div>
 
+                  {/* Word Categories */}
+                  <div className="space-y-3">
+                    <Label className="text-base font-medium">Word Categories</Label>
+                    <WordSourcePicker
+                      categories={categories}
+                      categoryIds={categoryIds}
+                      customWordShare={customWordShare}
+                      hasCustomWords={customWordsCheck.entries.length > 0}
+                      onChange={(change) => {
+                        setCategoryIds(change.categoryIds)
+                        setCustomWordShare(change.customWordShare)
+                      }}
+                    />
+                  </div>
+
                   {/* Team Mode */}
                   <div className="flex items-center justify-between p-4 border rounded-lg">
                     <div className="space-y-1">
@@ -324,17 +401,114 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
                     />
                   </div>
 
+                  {/* Plurals */}
+                  <div className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="space-y-1">
+                      <Label className="text-base font-medium">Accept Plurals</Label>
+                      <p className="text-sm text-muted-foreground">
+                        "cats" counts as a correct guess for "cat", but "cat" doesn't count for "cats"
+                      </p>
+                    </div>
+                    <Switch
+                      checked={acceptPlurals}
+                      onCheckedChange={setAcceptPlurals}
+                    />
+                  </div>
+
+                  {/* Round End */}
+                  <div className="space-y-3">
+                    <Label className="text-base font-medium">Round Ends When</Label>
+                    <Select value={roundEndMode} onValueChange={(value) => setRoundEndMode(value as RoundEndMode)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all_guessed">Everyone has guessed</SelectItem>
+                        <SelectItem value="first_guess">Someone guesses correctly</SelectItem>
+                        <SelectItem value="timer">Time runs out</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      The timer always ends the round if it runs out first
+                    </p>
+                  </div>
+
+                  {/* Word Choices */}
+                  <div className="space-y-3">
+                    <Label className="text-base font-medium">Words to Choose From</Label>
+                    <Select value={String(wordChoiceCount)} onValueChange={(value) => setWordChoiceCount(Number(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">1 (drawer gets a random word)</SelectItem>
+                        <SelectItem value="2">2</SelectItem>
+                        <SelectItem value="3">3</SelectItem>
+                        <SelectItem value="4">4</SelectItem>
+                        <SelectItem value="5">5</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Recent Words */}
+                  <div className="space-y-3">
+                    <Label className="text-base font-medium">Avoid Words From Recent Games</Label>
+                    <Select value={String(recentGamesToAvoid)} onValueChange={(value) => setRecentGamesToAvoid(Number(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">Off</SelectItem>
+                        <SelectItem value="1">Each player's last game</SelectItem>
+                        <SelectItem value="3">Each player's last 3 games</SelectItem>
+                        <SelectItem value="5">Each player's last 5 games</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      Words never repeat within a room until the word list runs out
+                    </p>
+                  </div>
+
+                  {/* Hints */}
+                  <div className="space-y-3">
+                    <Label className="text-base font-medium">Letter Hints</Label>
+                    <Select value={hintLevel} onValueChange={(value) => setHintLevel(value as HintLevel)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="some">2 letters, at 1/2 and 3/4 of the round</SelectItem>
+                        <SelectItem value="many">3 letters, at 1/4, 1/2 and 3/4 of the round</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      At least one letter always stays hidden
+                    </p>
+                  </div>
+
+                  {/* Scoring */}
+                  <div className="space-y-3">
+                    <Label className="text-base font-medium">Scoring</Label>
+                    <Select value={scoringPreset} onValueChange={(value) => setScoringPreset(value as ScoringPreset)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="classic">Classic: speed, order and drawer points</SelectItem>
+                        <SelectItem value="speed">Speed: fast guesses are worth the most</SelectItem>
+                        <SelectItem value="flat">Flat: every correct guess scores the same</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Custom Words */}
                   <div className="space-y-3">
                     <Label className="text-base font-medium">Custom Words (Optional)</Label>
-                    <Textarea
-                      placeholder="Enter custom words separated by commas or new lines&#10;Example: rainbow, butterfly, telescope, adventure..."
-                      value={customWords}
-                      onChange={(e) => setCustomWords(e.target.value)}
-                      rows={4}
-                    />
+                    <CustomWordsInput value={customWords} onChange={setCustomWords} check={customWordsCheck} />
                     <p className="text-sm text-muted-foreground">
-                      Add at least 5 custom words to override the default word list
+                      Add at least {MIN_CUSTOM_WORDS} custom words to override the default word list. Commas and new lines
+                      separate words; put a word with a comma in quotes, like "salt, pepper". Other accepted answers go after a "|"
                     </p>
                   </div>
 
@@ -381,6 +555,14 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="words" className="space-y-6">
+              <WordPackManager />
+            </TabsContent>
+
+            <TabsContent value="stats" className="space-y-6">
+              <WordStatsReport />
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -2,15 +2,7 @@ import { Card } from './ui/card'
 import { Badge } from './ui/badge'
 import { Avatar, AvatarFallback } from './ui/avatar'
 import { Crown, Palette, Trophy, Users } from 'lucide-react'
-
-interface Player {
-  id: string
-  userId: string
-  displayName: string
-  score: number
-  isReady: boolean
-  team?: string | null
-}
+import type { RoomPlayer as Player } from '../types/game'
 
 interface PlayerListProps {
   players: Player[]
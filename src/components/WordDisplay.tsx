@@ -1,24 +1,84 @@
 import { Card } from './ui/card'
 import { Badge } from './ui/badge'
-import { Eye, EyeOff } from 'lucide-react'
+import { Button } from './ui/button'
+import { Eye, EyeOff, Hourglass } from 'lucide-react'
+import { letterCount } from '../game/hints'
+import { useCountdown } from '../hooks/use-countdown'
+import type { GamePhase, GameState } from '../types/game'
 
 interface WordDisplayProps {
+  // The secret word; only the drawer's client ever has it.
   word: string | null
+  // Underscores for hidden letters, as published by the room authority.
+  mask: string | null
   isDrawer: boolean
-  gameState: 'waiting' | 'playing' | 'finished'
+  gameState: GameState
+  phase: GamePhase
+  drawerName: string
+  // The words on offer while the drawer is choosing; only theirs has them.
+  choices: string[] | null
+  choiceEndsAt: string | null
+  onChooseWord: (word: string) => void
 }
 
-export function WordDisplay({ word, isDrawer, gameState }: WordDisplayProps) {
-  if (gameState !== 'playing' || !word) {
+export function WordDisplay({
+  word,
+  mask,
+  isDrawer,
+  gameState,
+  phase,
+  drawerName,
+  choices,
+  choiceEndsAt,
+  onChooseWord
+}: WordDisplayProps) {
+  const choiceSecondsLeft = useCountdown(choiceEndsAt)
+
+  if (phase === 'choosing_word') {
+    return (
+      <Card className="p-4">
+        <div className="text-center space-y-3">
+          <div className="flex items-center justify-center gap-2">
+            <Hourglass className="h-4 w-4 text-muted-foreground" />
+            <Badge variant="secondary" className="text-xs">
+              {isDrawer ? 'Choose a word' : `${drawerName} is choosing a word`}
+            </Badge>
+            {choiceEndsAt && (
+              <span className="text-xs font-mono text-muted-foreground">{choiceSecondsLeft}s</span>
+            )}
+          </div>
+
+          {isDrawer && choices && (
+            <div className="flex flex-wrap justify-center gap-2">
+              {choices.map((choice) => (
+                <Button key={choice} variant="outline" onClick={() => onChooseWord(choice)}>
+                  {choice.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {isDrawer && (
+            <p className="text-xs text-muted-foreground">
+              If you don't pick in time, one is chosen for you.
+            </p>
+          )}
+        </div>
+      </Card>
+    )
+  }
+
+  const shown = isDrawer ? word : mask
+  if (gameState !== 'playing' || !shown) {
     return null
   }
 
   const getWordDisplay = () => {
     if (isDrawer) {
-      return word.toUpperCase()
+      return shown.toUpperCase()
     } else {
       // Show blanks for guessers
-      return word.split('').map(char => char === ' ' ? ' ' : '_').join(' ')
+      return shown.split('').join(' ')
     }
   }
 
@@ -27,7 +87,7 @@ export function WordDisplay({ word, isDrawer, gameState }: WordDisplayProps) {
     
     return (
       <div className="text-xs text-muted-foreground mt-2">
-        {word.length} letters
+        {letterCount(shown)} letters
       </div>
     )
   }
@@ -0,0 +1,330 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { repo } from '../data'
+import { createId } from '../lib/ids'
+import {
+  dedupeWords,
+  exportWordPacks,
+  formatForFileName,
+  importWordPacks,
+  seedDefaultWordPacks,
+  type WordPack,
+  type WordPackFormat
+} from '../game/word-packs'
+import { formatWordList, parseWordEntry, parseWordList, splitWordList } from '../game/words'
+import type { Difficulty, WordCategory } from '../types/game'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Textarea } from './ui/textarea'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Library, Plus, Save, Trash2, Download, Upload, CopyMinus } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface Draft {
+  name: string
+  difficulty: Difficulty
+  // One entry per line, in the "word | alias" syntax.
+  text: string
+}
+
+const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard']
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800'
+}
+
+const FILE_TYPES: Record<WordPackFormat, { extension: string; mime: string }> = {
+  json: { extension: 'json', mime: 'application/json' },
+  csv: { extension: 'csv', mime: 'text/csv' },
+  text: { extension: 'txt', mime: 'text/plain' }
+}
+
+const toDraft = (category: WordCategory): Draft => ({
+  name: category.name,
+  difficulty: category.difficulty,
+  text: formatWordList(category.words, '\n')
+})
+
+const sameSlot = (a: WordPack, b: WordPack) =>
+  a.difficulty === b.difficulty && a.name.trim().toLowerCase() === b.name.trim().toLowerCase()
+
+function download(fileName: string, contents: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: mime }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function WordPackManager() {
+  const [categories, setCategories] = useState<WordCategory[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [format, setFormat] = useState<WordPackFormat>('json')
+  const [loading, setLoading] = useState(true)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadCategories = useCallback(async () => {
+    try {
+      await seedDefaultWordPacks(repo)
+      const list = await repo.wordCategories.list()
+      list.sort((a, b) =>
+        DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty) || a.name.localeCompare(b.name))
+      setCategories(list)
+      return list
+    } catch (error) {
+      console.error('Error loading word packs:', error)
+      toast.error('Failed to load word packs')
+      return []
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadCategories()
+  }, [loadCategories])
+
+  const selected = categories.find(category => category.id === selectedId) ?? null
+  const draftWords = draft ? parseWordList(draft.text) : []
+
+  const select = (category: WordCategory | null) => {
+    setSelectedId(category?.id ?? null)
+    setDraft(category ? toDraft(category) : null)
+  }
+
+  const createPack = async () => {
+    try {
+      const category = await repo.wordCategories.create({
+        id: createId('words'),
+        name: 'New pack',
+        difficulty: 'medium',
+        words: []
+      })
+      await loadCategories()
+      select(category)
+    } catch (error) {
+      console.error('Error creating word pack:', error)
+      toast.error('Failed to create word pack')
+    }
+  }
+
+  const savePack = async () => {
+    if (!selected || !draft) return
+    const name = draft.name.trim()
+    if (!name) {
+      toast.error('Give the pack a name')
+      return
+    }
+    try {
+      await repo.wordCategories.update(selected.id, { name, difficulty: draft.difficulty, words: draftWords })
+      const list = await loadCategories()
+      select(list.find(category => category.id === selected.id) ?? null)
+      toast.success(`Saved ${draftWords.length} words`)
+    } catch (error) {
+      console.error('Error saving word pack:', error)
+      toast.error('Failed to save word pack')
+    }
+  }
+
+  const deletePack = async () => {
+    if (!selected || !window.confirm(`Delete the "${selected.name}" pack?`)) return
+    try {
+      await repo.wordCategories.delete(selected.id)
+      select(null)
+      await loadCategories()
+    } catch (error) {
+      console.error('Error deleting word pack:', error)
+      toast.error('Failed to delete word pack')
+    }
+  }
+
+  // Counts repeats as typed, before they are merged away.
+  const dedupeDraft = () => {
+    if (!draft) return
+    const typed = splitWordList(draft.text)
+      .map(part => parseWordEntry(part.text))
+      .filter(entry => entry !== null)
+    const { words, removed } = dedupeWords(typed)
+    setDraft({ ...draft, text: formatWordList(words, '\n') })
+    toast.success(removed > 0 ? `Removed ${removed} duplicate${removed === 1 ? '' : 's'}` : 'No duplicates found')
+  }
+
+  const exportPacks = (packs: WordPack[], baseName: string) => {
+    const { extension, mime } = FILE_TYPES[format]
+    download(`${baseName}.${extension}`, exportWordPacks(packs, format), mime)
+  }
+
+  const importFile = async (file: File) => {
+    try {
+      const fallback: WordPack = {
+        name: file.name.replace(/\.[^.]+$/, '') || 'Imported',
+        difficulty: draft?.difficulty ?? 'medium',
+        words: []
+      }
+      const packs = importWordPacks(await file.text(), formatForFileName(file.name), fallback)
+      if (packs.length === 0) {
+        toast.error('No words found in that file')
+        return
+      }
+      // Packs that already exist get the new words added to them.
+      for (const wordPack of packs) {
+        const existing = categories.find(category => sameSlot(category, wordPack))
+        if (existing) {
+          const { words } = dedupeWords([...existing.words, ...wordPack.words])
+          await repo.wordCategories.update(existing.id, { words })
+        } else {
+          await repo.wordCategories.create({ id: createId('words'), ...wordPack })
+        }
+      }
+      const list = await loadCategories()
+      if (selectedId) select(list.find(category => category.id === selectedId) ?? null)
+      const total = packs.reduce((sum, wordPack) => sum + wordPack.words.length, 0)
+      toast.success(`Imported ${total} words into ${packs.length} pack${packs.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error('Error importing word packs:', error)
+      toast.error('Could not read that file')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="w-5 h-5" />
+          Word Packs
+        </CardTitle>
+        <CardDescription>
+          The words rooms draw from, by difficulty. Rooms with custom words don't use these.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Pack list */}
+        <div className="space-y-2">
+          {loading && <p className="text-sm text-muted-foreground">Loading packs...</p>}
+          {categories.map(category => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => select(category)}
+              className={`w-full flex items-center justify-between p-3 border rounded-lg text-left transition-colors ${
+                category.id === selectedId ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+              }`}
+            >
+              <span className="font-medium">{category.name}</span>
+              <span className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">{category.words.length} words</span>
+                <Badge className={DIFFICULTY_COLORS[category.difficulty]}>{category.difficulty}</Badge>
+              </span>
+            </button>
+          ))}
+          <Button variant="outline" onClick={createPack} className="w-full">
+            <Plus className="w-4 h-4 mr-2" />
+            New Pack
+          </Button>
+        </div>
+
+        {/* Editor */}
+        {selected && draft && (
+          <div className="space-y-4 p-4 border rounded-lg">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="packName">Name</Label>
+                <Input
+                  id="packName"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Difficulty</Label>
+                <Select value={draft.difficulty} onValueChange={(value) => setDraft({ ...draft, difficulty: value as Difficulty })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="easy">Easy</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="hard">Hard</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="packWords">Words ({draftWords.length})</Label>
+              <Textarea
+                id="packWords"
+                value={draft.text}
+                onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                rows={10}
+                className="font-mono text-sm"
+              />
+              <p className="text-sm text-muted-foreground">
+                One word per line. Other accepted answers go after a "|", e.g. ice cream | icecream
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={savePack}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button variant="outline" onClick={dedupeDraft}>
+                <CopyMinus className="w-4 h-4 mr-2" />
+                Remove Duplicates
+              </Button>
+              <Button variant="outline" onClick={() => exportPacks([selected], selected.name)}>
+                <Download className="w-4 h-4 mr-2" />
+                Export Pack
+              </Button>
+              <Button variant="destructive" onClick={deletePack} className="sm:ml-auto">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Import / export */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={format} onValueChange={(value) => setFormat(value as WordPackFormat)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="json">JSON</SelectItem>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="text">Plain list</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => exportPacks(categories, 'word-packs')} disabled={categories.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export All
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,.txt,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) importFile(file)
+            }}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Imports are read by file extension. Plain lists and files without a pack name go into a pack named after the file.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
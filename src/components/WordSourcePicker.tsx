@@ -0,0 +1,92 @@
+import type { WordCategory } from '../types/game'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+
+interface WordSourcePickerProps {
+  categories: WordCategory[]
+  categoryIds: string[]
+  customWordShare: number
+  // Only asked for when the room has custom words to mix in.
+  hasCustomWords: boolean
+  disabled?: boolean
+  onChange: (change: { categoryIds: string[]; customWordShare: number }) => void
+}
+
+const CUSTOM_WORD_SHARES = [0.25, 0.5, 0.75]
+
+const DIFFICULTY_COLORS: Record<WordCategory['difficulty'], string> = {
+  easy: 'bg-green-100 text-green-800 border-green-200',
+  medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  hard: 'bg-red-100 text-red-800 border-red-200'
+}
+
+export function WordSourcePicker({
+  categories,
+  categoryIds,
+  customWordShare,
+  hasCustomWords,
+  disabled = false,
+  onChange
+}: WordSourcePickerProps) {
+  const toggle = (id: string) => {
+    const next = categoryIds.includes(id) ? categoryIds.filter(other => other !== id) : [...categoryIds, id]
+    onChange({ categoryIds: next, customWordShare })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {categories.map(category => {
+          const picked = categoryIds.includes(category.id)
+          return (
+            <button
+              key={category.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => toggle(category.id)}
+              className={`flex items-center gap-2 px-3 py-1.5 border rounded-full text-sm transition-colors disabled:opacity-50 ${
+                picked ? 'border-primary bg-primary/10 text-primary' : 'hover:bg-muted/50'
+              }`}
+            >
+              {category.name}
+              <Badge className={`text-xs ${DIFFICULTY_COLORS[category.difficulty]}`}>{category.difficulty}</Badge>
+            </button>
+          )
+        })}
+        {categories.length === 0 && (
+          <p className="text-sm text-muted-foreground">No word packs yet</p>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {categoryIds.length === 0
+          ? hasCustomWords
+            ? 'Only custom words are used. Pick categories to mix them in.'
+            : 'No categories picked: every category of the chosen difficulty is used.'
+          : `${categoryIds.length} categor${categoryIds.length === 1 ? 'y' : 'ies'} picked`}
+      </p>
+
+      {hasCustomWords && categoryIds.length > 0 && (
+        <div className="space-y-2">
+          <Label>Custom Words Share</Label>
+          <Select
+            value={String(customWordShare)}
+            onValueChange={(value) => onChange({ categoryIds, customWordShare: Number(value) })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUSTOM_WORD_SHARES.map(share => (
+                <SelectItem key={share} value={String(share)}>
+                  {share * 100}% custom words, {100 - share * 100}% categories
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  )
+}
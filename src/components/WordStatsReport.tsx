@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react'
+import { repo } from '../data'
+import { MIN_ROUNDS, loadWordStats, rankWords, type WordStat } from '../game/word-stats'
+import type { Difficulty } from '../types/game'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { BarChart3, ThumbsUp, ThumbsDown, Ban, ArrowRight } from 'lucide-react'
+
+const REPORT_SIZE = 10
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800'
+}
+
+const percent = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`)
+const seconds = (value: number | null) => (value === null ? '–' : `${value.toFixed(1)}s`)
+
+function WordTable({ stats, packDifficulty }: { stats: WordStat[]; packDifficulty: Map<string, Difficulty> }) {
+  if (stats.length === 0) {
+    return <p className="text-sm text-muted-foreground">Not enough rounds played yet</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Word</TableHead>
+          <TableHead className="text-right">Rounds</TableHead>
+          <TableHead className="text-right">Guessed</TableHead>
+          <TableHead className="text-right">Avg. time</TableHead>
+          <TableHead>Difficulty</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {stats.map(stat => {
+          const pack = packDifficulty.get(stat.word)
+          return (
+            <TableRow key={stat.word}>
+              <TableCell className="font-medium">{stat.word}</TableCell>
+              <TableCell className="text-right">{stat.rounds}</TableCell>
+              <TableCell className="text-right">{percent(stat.guessRate)}</TableCell>
+              <TableCell className="text-right">{seconds(stat.averageGuessSeconds)}</TableCell>
+              <TableCell>
+                <span className="flex items-center gap-1">
+                  {pack && pack !== stat.difficulty && (
+                    <>
+                      <Badge variant="outline" className="text-xs">{pack}</Badge>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    </>
+                  )}
+                  {stat.difficulty && (
+                    <Badge className={`text-xs ${DIFFICULTY_COLORS[stat.difficulty]}`}>{stat.difficulty}</Badge>
+                  )}
+                </span>
+              </TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function WordStatsReport() {
+  const [stats, setStats] = useState<WordStat[]>([])
+  const [packDifficulty, setPackDifficulty] = useState<Map<string, Difficulty>>(new Map())
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([loadWordStats(repo), repo.wordCategories.list()])
+      .then(([wordStats, categories]) => {
+        if (cancelled) return
+        setStats(wordStats)
+        setPackDifficulty(new Map(categories.flatMap(category =>
+          category.words.map(entry => [entry.word, category.difficulty] as const))))
+      })
+      .catch(error => console.error('Error loading word stats:', error))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const ranked = rankWords(stats)
+  // With few words played, the two lists split them rather than repeat them.
+  const split = Math.min(REPORT_SIZE, Math.ceil(ranked.length / 2))
+  const best = ranked.slice(0, split)
+  const worst = ranked.slice(Math.max(split, ranked.length - REPORT_SIZE)).reverse()
+  const neverGuessed = stats.filter(stat => stat.neverGuessed)
+  const moved = ranked.filter(stat => {
+    const pack = packDifficulty.get(stat.word)
+    return pack && stat.difficulty && pack !== stat.difficulty
+  })
+  const rounds = stats.reduce((sum, stat) => sum + stat.rounds, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5" />
+          Word Stats
+        </CardTitle>
+        <CardDescription>
+          How often each word gets guessed, across every game. Words played {MIN_ROUNDS}+ times
+          move to the difficulty their guess rate earns when rooms pick by difficulty.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading stats...</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{stats.length} words played</Badge>
+              <Badge variant="secondary">{rounds} rounds</Badge>
+              <Badge variant="secondary">{moved.length} re-bucketed</Badge>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium flex items-center gap-2">
+                <ThumbsUp className="h-4 w-4 text-green-600" />
+                Most Guessed
+              </h3>
+              <WordTable stats={best} packDifficulty={packDifficulty} />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium flex items-center gap-2">
+                <ThumbsDown className="h-4 w-4 text-red-600" />
+                Least Guessed
+              </h3>
+              <WordTable stats={worst} packDifficulty={packDifficulty} />
+            </div>
+
+            {neverGuessed.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium flex items-center gap-2">
+                  <Ban className="h-4 w-4 text-muted-foreground" />
+                  Never Guessed
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {neverGuessed.map(stat => (
+                    <Badge key={stat.word} variant="destructive">
+                      {stat.word} ({stat.rounds} rounds)
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Consider removing these from their word packs
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,6 @@
+import { backend } from '../backend'
+import { createRepository } from './repository'
+
+export const repo = createRepository(backend.db)
+
+export type { Repository } from './repository'
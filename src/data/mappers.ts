@@ -0,0 +1,271 @@
+import type {
+  Difficulty,
+  DrawingStroke,
+  GameMessage,
+  GamePhase,
+  GameRoom,
+  GameStat,
+  GameState,
+  RoomPlayer,
+  RoundEndMode,
+  ScoreEvent,
+  ScoreLine,
+  Team,
+  WordCategory,
+  WordEntry
+} from '../types/game'
+import type { Row } from '../backend/types'
+import { withDefaultRules } from '../game/scoring'
+import { formatWordList, parseWordList, toWordEntry } from '../game/words'
+
+// Rows come back from the database untyped. Columns may be missing, booleans
+// may arrive as 0/1 or "0"/"1", and rows created by the first version of
+// HomePage use the legacy names (hostId, status, roundTimeLimit, playerName).
+
+const toBool = (value: unknown): boolean => {
+  if (typeof value === 'string') return value === '1' || value === 'true'
+  return Boolean(value)
+}
+
+const toNumber = (value: unknown, fallback = 0): number => {
+  const n = Number(value)
+  return Number.isFinite(n) ? n : fallback
+}
+
+const toStringOrNull = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value)
+
+const toGameState = (value: unknown): GameState =>
+  value === 'playing' || value === 'finished' ? value : 'waiting'
+
+const PHASES: GamePhase[] = ['lobby', 'choosing_word', 'drawing', 'reveal', 'intermission', 'finished']
+
+// Rows from before the state machine only carry gameState.
+const toPhase = (value: unknown, gameState: GameState): GamePhase => {
+  if (PHASES.includes(value as GamePhase)) return value as GamePhase
+  if (gameState === 'playing') return 'drawing'
+  return gameState === 'finished' ? 'finished' : 'lobby'
+}
+
+const toDifficulty = (value: unknown): Difficulty =>
+  value === 'easy' || value === 'hard' ? value : 'medium'
+
+// Rooms created before the setting existed keep going until everyone has guessed.
+const toRoundEndMode = (value: unknown): RoundEndMode =>
+  value === 'first_guess' || value === 'timer' ? value : 'all_guessed'
+
+const toTeam = (value: unknown): Team | null =>
+  value === 'red' || value === 'blue' ? value : null
+
+// JSON columns may come back parsed or as the string that was written.
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+const parseJsonObject = (value: unknown): Record<string, any> | null => {
+  const parsed = parseJson(value)
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, any> : null
+}
+
+const DEFAULT_HINT_SCHEDULE = [0.5, 0.75]
+
+// Sorted, and only points that fall inside the round.
+const toHintSchedule = (value: unknown): number[] => {
+  if (value === null || value === undefined || value === '') return DEFAULT_HINT_SCHEDULE
+  const parsed = parseJson(value)
+  if (!Array.isArray(parsed)) return DEFAULT_HINT_SCHEDULE
+  return parsed
+    .map(Number)
+    .filter(fraction => fraction > 0 && fraction < 1)
+    .sort((a, b) => a - b)
+}
+
+const parseJsonArray = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String)
+  if (typeof value !== 'string' || !value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.map(String) : []
+  } catch {
+    return []
+  }
+}
+
+// Stored as a JSON list of entries. Rooms from before that hold the words
+// comma-joined, which can't carry a word with a comma in it.
+const toCustomWords = (value: unknown): WordEntry[] | null => {
+  if (value === null || value === undefined || value === '') return null
+  const parsed = parseJson(value)
+  const entries = Array.isArray(parsed)
+    ? parsed.map(toWordEntry).filter((entry): entry is WordEntry => entry !== null)
+    : parseWordList(typeof parsed === 'string' ? parsed : String(value))
+  return entries.length > 0 ? entries : null
+}
+
+export function toGameRoom(row: Row): GameRoom {
+  const gameState = toGameState(row.gameState ?? row.status)
+  return {
+    id: String(row.id),
+    roomCode: String(row.roomCode ?? row.id),
+    hostUserId: String(row.hostUserId ?? row.hostId ?? ''),
+    gameNumber: toNumber(row.gameNumber),
+    currentRound: toNumber(row.currentRound),
+    maxRounds: toNumber(row.maxRounds, 3),
+    roundTime: toNumber(row.roundTime ?? row.roundTimeLimit, 60),
+    currentDrawerId: toStringOrNull(row.currentDrawerId),
+    wordMask: toStringOrNull(row.wordMask),
+    lastWord: toStringOrNull(row.lastWord),
+    gameState,
+    phase: toPhase(row.phase, gameState),
+    roundStartTime: toStringOrNull(row.roundStartTime),
+    phaseEndsAt: toStringOrNull(row.phaseEndsAt),
+    difficulty: toDifficulty(row.difficulty),
+    categoryIds: parseJsonArray(row.categoryIds),
+    customWords: toCustomWords(row.customWords),
+    customWordShare: Math.min(1, Math.max(0, toNumber(row.customWordShare, 0.5))),
+    recentGamesToAvoid: Math.max(0, toNumber(row.recentGamesToAvoid)),
+    teamMode: toBool(row.teamMode),
+    // Missing on rooms from before the setting; matching plurals was the more forgiving choice.
+    acceptPlurals: row.acceptPlurals === undefined || row.acceptPlurals === null ? true : toBool(row.acceptPlurals),
+    roundEndMode: toRoundEndMode(row.roundEndMode),
+    wordChoiceCount: Math.max(1, toNumber(row.wordChoiceCount, 3)),
+    hintSchedule: toHintSchedule(row.hintSchedule),
+    scoring: withDefaultRules(parseJsonObject(row.scoring)),
+    authorityId: toStringOrNull(row.authorityId),
+    authorityLeaseUntil: toStringOrNull(row.authorityLeaseUntil),
+    guessKey: toStringOrNull(row.guessKey),
+    createdAt: String(row.createdAt ?? '')
+  }
+}
+
+export function fromGameRoom(room: Partial<GameRoom>): Row {
+  const { scoring, hintSchedule, categoryIds, customWords, ...rest } = room
+  const row: Row = { ...rest }
+  if (customWords !== undefined) row.customWords = customWords ? JSON.stringify(customWords) : null
+  if (scoring !== undefined) row.scoring = JSON.stringify(scoring)
+  if (hintSchedule !== undefined) row.hintSchedule = JSON.stringify(hintSchedule)
+  if (categoryIds !== undefined) row.categoryIds = JSON.stringify(categoryIds)
+  return row
+}
+
+export function toRoomPlayer(row: Row): RoomPlayer {
+  return {
+    id: String(row.id),
+    roomId: String(row.roomId),
+    userId: String(row.userId),
+    displayName: String(row.displayName ?? row.playerName ?? 'Player'),
+    score: toNumber(row.score),
+    isReady: toBool(row.isReady),
+    isDrawing: toBool(row.isDrawing),
+    team: toTeam(row.team),
+    joinedAt: String(row.joinedAt ?? row.createdAt ?? ''),
+    leftAt: toStringOrNull(row.leftAt)
+  }
+}
+
+export function toGameMessage(row: Row): GameMessage {
+  return {
+    id: String(row.id),
+    roomId: String(row.roomId),
+    userId: String(row.userId),
+    displayName: String(row.displayName ?? row.playerName ?? 'Player'),
+    message: String(row.message ?? ''),
+    isGuess: toBool(row.isGuess),
+    isCorrect: toBool(row.isCorrect),
+    guessedOnly: toBool(row.guessedOnly),
+    createdAt: String(row.createdAt ?? '')
+  }
+}
+
+export function toDrawingStroke(row: Row): DrawingStroke {
+  return {
+    id: String(row.id),
+    roomId: String(row.roomId),
+    roundNumber: toNumber(row.roundNumber),
+    strokeData: String(row.strokeData ?? ''),
+    createdAt: String(row.createdAt ?? '')
+  }
+}
+
+const toScoreParts = (value: unknown): ScoreLine['parts'] => {
+  const parsed = parseJson(value)
+  return Array.isArray(parsed)
+    ? parsed.map((part: Record<string, any>) => ({ label: String(part.label), points: toNumber(part.points) }))
+    : []
+}
+
+const toScoreLine = (line: Row): ScoreLine => ({
+  userId: String(line.userId),
+  role: line.role === 'drawer' ? 'drawer' : 'guesser',
+  team: toTeam(line.team),
+  points: toNumber(line.points),
+  parts: toScoreParts(line.parts)
+})
+
+const toScoreLines = (value: unknown): ScoreLine[] => {
+  const parsed = parseJson(value)
+  return Array.isArray(parsed) ? parsed.map(toScoreLine) : []
+}
+
+export function toGameStat(row: Row): GameStat {
+  return {
+    id: String(row.id),
+    roomId: String(row.roomId),
+    gameNumber: toNumber(row.gameNumber),
+    roundNumber: toNumber(row.roundNumber),
+    drawerId: String(row.drawerId ?? ''),
+    word: String(row.word ?? ''),
+    wordChoices: parseJsonArray(row.wordChoices),
+    autoPicked: toBool(row.autoPicked),
+    startedAt: toStringOrNull(row.startedAt),
+    possibleGuessers: toNumber(row.possibleGuessers),
+    correctGuessers: parseJsonArray(row.correctGuessers),
+    breakdown: toScoreLines(row.breakdown)
+  }
+}
+
+export function fromGameStat(stat: Partial<GameStat>): Row {
+  const { wordChoices, correctGuessers, breakdown, ...rest } = stat
+  const row: Row = { ...rest }
+  if (wordChoices !== undefined) row.wordChoices = JSON.stringify(wordChoices)
+  if (correctGuessers !== undefined) row.correctGuessers = JSON.stringify(correctGuessers)
+  if (breakdown !== undefined) row.breakdown = JSON.stringify(breakdown)
+  return row
+}
+
+export function toWordCategory(row: Row): WordCategory {
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    difficulty: toDifficulty(row.difficulty),
+    // Stored as text, e.g. "cat, ice cream | icecream, dog"
+    words: parseWordList(String(row.words ?? ''))
+  }
+}
+
+export function fromWordCategory(category: Partial<WordCategory>): Row {
+  const { words, ...rest } = category
+  return words === undefined ? rest : { ...rest, words: formatWordList(words) }
+}
+
+export function toScoreEvent(row: Row): ScoreEvent {
+  return {
+    ...toScoreLine(row),
+    id: String(row.id),
+    roomId: String(row.roomId),
+    gameNumber: toNumber(row.gameNumber),
+    roundNumber: toNumber(row.roundNumber),
+    guessOrder: toNumber(row.guessOrder),
+    createdAt: String(row.createdAt ?? '')
+  }
+}
+
+export function fromScoreEvent(event: Partial<ScoreEvent>): Row {
+  const { parts, ...rest } = event
+  return parts === undefined ? rest : { ...rest, parts: JSON.stringify(parts) }
+}
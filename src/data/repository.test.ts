@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryDatabase } from '../backend/memory'
+import { tallyRounds } from '../game/word-stats'
+import type { ScoreLine } from '../types/game'
+import { createRepository, gameStatId, scoreEventId } from './repository'
+
+const line = (userId: string, points: number): ScoreLine =>
+  ({ userId, role: 'guesser', team: null, points, parts: [{ label: 'Correct guess', points }] })
+
+// Round 1 of game `gameNumber` in room ROOM, drawn by alice and guessed by `guesser`.
+async function playRound(repo: ReturnType<typeof createRepository>, gameNumber: number, word: string, guesser: string) {
+  await repo.stats.create({
+    id: gameStatId('ROOM', gameNumber, 1),
+    roomId: 'ROOM',
+    gameNumber,
+    roundNumber: 1,
+    drawerId: 'alice',
+    word,
+    wordChoices: [word],
+    autoPicked: false,
+    startedAt: null,
+    possibleGuessers: 2,
+    correctGuessers: [],
+    breakdown: []
+  })
+  return repo.scores.record({
+    ...line(guesser, 100),
+    id: scoreEventId('ROOM', gameNumber, 1, 'guesser', guesser),
+    roomId: 'ROOM',
+    gameNumber,
+    roundNumber: 1,
+    guessOrder: 0
+  })
+}
+
+describe('repository', () => {
+  it('records the same round of a second game in the room', async () => {
+    const repo = createRepository(createMemoryDatabase())
+    expect(await playRound(repo, 1, 'cat', 'bob')).toBe(true)
+    expect(await playRound(repo, 2, 'dog', 'carol')).toBe(true)
+
+    expect(await repo.stats.getRound('ROOM', 1, 1)).toMatchObject({ word: 'cat', correctGuessers: ['bob'] })
+    expect(await repo.stats.getRound('ROOM', 2, 1)).toMatchObject({ word: 'dog', correctGuessers: ['carol'] })
+    expect(await repo.scores.listByRoom('ROOM')).toHaveLength(2)
+  })
+
+  it('still pays each award once within a game', async () => {
+    const repo = createRepository(createMemoryDatabase())
+    await playRound(repo, 1, 'cat', 'bob')
+    const again = { ...line('bob', 100), id: scoreEventId('ROOM', 1, 1, 'guesser', 'bob'), roomId: 'ROOM', gameNumber: 1, roundNumber: 1, guessOrder: 0 }
+    expect(await repo.scores.record(again)).toBe(false)
+  })
+
+  it('keeps word stats of the two games apart', async () => {
+    const repo = createRepository(createMemoryDatabase())
+    await playRound(repo, 1, 'cat', 'bob')
+    await playRound(repo, 2, 'dog', 'carol')
+    const totals = tallyRounds(await repo.stats.listByRoom('ROOM'), await repo.scores.listByRoom('ROOM'))
+    expect(totals.get('cat')).toMatchObject({ rounds: 1, guessed: 1 })
+    expect(totals.get('dog')).toMatchObject({ rounds: 1, guessed: 1 })
+  })
+})
@@ -0,0 +1,264 @@
+import type {
+  Difficulty,
+  DrawingStroke,
+  GameMessage,
+  GameRoom,
+  GameStat,
+  RoomPlayer,
+  ScoreEvent,
+  WordCategory
+} from '../types/game'
+import {
+  fromGameRoom,
+  fromGameStat,
+  fromScoreEvent,
+  fromWordCategory,
+  toDrawingStroke,
+  toGameMessage,
+  toGameRoom,
+  toGameStat,
+  toRoomPlayer,
+  toScoreEvent,
+  toWordCategory
+} from './mappers'
+import type { GameDatabase } from '../backend/types'
+
+type Timestamp = 'createdAt' | 'joinedAt'
+
+// Timestamps are filled in on create when the caller leaves them out.
+export type NewRecord<T> = Omit<T, Timestamp> & Partial<Pick<T, Extract<keyof T, Timestamp>>>
+
+// One award per player, round and role in each game: recording it again finds
+// the same id, while the next game in the room gets ids of its own.
+export const scoreEventId = (roomId: string, gameNumber: number, roundNumber: number, role: ScoreEvent['role'], userId: string) =>
+  `score_${roomId}_${gameNumber}_${roundNumber}_${role}_${userId}`
+
+export const gameStatId = (roomId: string, gameNumber: number, roundNumber: number) =>
+  `stats_${roomId}_${gameNumber}_${roundNumber}`
+
+// Guessers in the order they guessed, then the drawer.
+const byGuessOrder = (a: ScoreEvent, b: ScoreEvent) =>
+  (a.role === b.role ? 0 : a.role === 'drawer' ? 1 : -1) || a.guessOrder - b.guessOrder
+
+const addScores = (player: RoomPlayer, events: ScoreEvent[]): RoomPlayer => ({
+  ...player,
+  score: events.reduce((sum, event) => (event.userId === player.userId ? sum + event.points : sum), player.score)
+})
+
+/**
+ * Typed access to every game table. Reads go through the mappers so callers
+ * always see the canonical shape, whichever version of the app wrote the row.
+ */
+export function createRepository(db: GameDatabase) {
+  const table = (name: string) => db.table(name)
+  const now = () => new Date().toISOString()
+
+  const rooms = {
+    async get(id: string): Promise<GameRoom | null> {
+      const row = await table('gameRooms').get(id)
+      return row ? toGameRoom(row) : null
+    },
+
+    // Room codes double as primary keys, so lookup by code is lookup by id.
+    getByCode(roomCode: string): Promise<GameRoom | null> {
+      return rooms.get(roomCode.toUpperCase())
+    },
+
+    async create(room: NewRecord<GameRoom>): Promise<GameRoom> {
+      const row = await table('gameRooms').create({ createdAt: now(), ...fromGameRoom(room) })
+      return toGameRoom(row)
+    },
+
+    async update(id: string, patch: Partial<GameRoom>): Promise<void> {
+      await table('gameRooms').update(id, fromGameRoom(patch))
+    }
+  }
+
+  const scores = {
+    async listByRoom(roomId: string): Promise<ScoreEvent[]> {
+      const rows = await table('scoreEvents').list({ where: { roomId } })
+      return rows.map(toScoreEvent)
+    },
+
+    // Everything awarded at or after `since`, an ISO timestamp.
+    async listSince(since: string): Promise<ScoreEvent[]> {
+      const rows = await table('scoreEvents').list({ where: { createdAt: { gte: since } } })
+      return rows.map(toScoreEvent)
+    },
+
+    async listByRound(roomId: string, gameNumber: number, roundNumber: number): Promise<ScoreEvent[]> {
+      const rows = await table('scoreEvents').list({ where: { roomId, gameNumber, roundNumber } })
+      return rows.map(toScoreEvent).sort(byGuessOrder)
+    },
+
+    // Only ever creates, never updates. Returns false when the award was
+    // already recorded, so a retried or duplicated award can't pay twice.
+    async record(event: NewRecord<ScoreEvent>): Promise<boolean> {
+      const events = table('scoreEvents')
+      if (await events.get(event.id)) return false
+      try {
+        await events.create(fromScoreEvent({ createdAt: now(), ...event }))
+        return true
+      } catch (error) {
+        if (await events.get(event.id)) return false
+        throw error
+      }
+    }
+  }
+
+  const players = {
+    async listByRoom(roomId: string): Promise<RoomPlayer[]> {
+      const [rows, events] = await Promise.all([
+        table('roomPlayers').list({ where: { roomId } }),
+        scores.listByRoom(roomId)
+      ])
+      return rows
+        .map(row => addScores(toRoomPlayer(row), events))
+        .sort((a, b) => b.score - a.score)
+    },
+
+    async find(roomId: string, userId: string): Promise<RoomPlayer | null> {
+      const rows = await table('roomPlayers').list({
+        where: { AND: [{ roomId }, { userId }] },
+        limit: 1
+      })
+      if (rows.length === 0) return null
+      const events = await table('scoreEvents').list({ where: { roomId, userId } })
+      return addScores(toRoomPlayer(rows[0]), events.map(toScoreEvent))
+    },
+
+    // Every room the player has joined, most recent first. Scores are left as stored.
+    async listByUser(userId: string): Promise<RoomPlayer[]> {
+      const rows = await table('roomPlayers').list({ where: { userId }, orderBy: { joinedAt: 'desc' } })
+      return rows.map(toRoomPlayer)
+    },
+
+    async create(player: NewRecord<RoomPlayer>): Promise<RoomPlayer> {
+      const row = await table('roomPlayers').create({ joinedAt: now(), ...player })
+      return toRoomPlayer(row)
+    },
+
+    async update(id: string, patch: Partial<RoomPlayer>): Promise<void> {
+      await table('roomPlayers').update(id, patch)
+    }
+  }
+
+  const messages = {
+    async listByRoom(roomId: string, limit = 50): Promise<GameMessage[]> {
+      const rows = await table('gameMessages').list({
+        where: { roomId },
+        orderBy: { createdAt: 'asc' },
+        limit
+      })
+      return rows.map(toGameMessage)
+    },
+
+    async create(message: NewRecord<GameMessage>): Promise<GameMessage> {
+      const row = await table('gameMessages').create({ createdAt: now(), ...message })
+      return toGameMessage(row)
+    }
+  }
+
+  const strokes = {
+    async listByRound(roomId: string, roundNumber: number): Promise<DrawingStroke[]> {
+      const rows = await table('drawingStrokes').list({
+        where: { roomId, roundNumber },
+        orderBy: { createdAt: 'asc' }
+      })
+      return rows.map(toDrawingStroke)
+    },
+
+    async create(stroke: NewRecord<DrawingStroke>): Promise<DrawingStroke> {
+      const row = await table('drawingStrokes').create({ createdAt: now(), ...stroke })
+      return toDrawingStroke(row)
+    },
+
+    async delete(id: string): Promise<void> {
+      await table('drawingStrokes').delete(id)
+    }
+  }
+
+  const stats = {
+    async getRound(roomId: string, gameNumber: number, roundNumber: number): Promise<GameStat | null> {
+      const [rows, events] = await Promise.all([
+        table('gameStats').list({ where: { roomId, gameNumber, roundNumber }, limit: 1 }),
+        scores.listByRound(roomId, gameNumber, roundNumber)
+      ])
+      if (rows.length === 0) return null
+      const stat = toGameStat(rows[0])
+      // Rounds played before score events keep what their row recorded.
+      if (events.length === 0) return stat
+      return {
+        ...stat,
+        correctGuessers: events.filter(event => event.role === 'guesser').map(event => event.userId),
+        breakdown: events.map(({ userId, role, team, points, parts }) => ({ userId, role, team, points, parts }))
+      }
+    },
+
+    // The stored rows only, without score events, for looking back at words.
+    async listByRoom(roomId: string): Promise<GameStat[]> {
+      const rows = await table('gameStats').list({ where: { roomId } })
+      return rows.map(toGameStat)
+    },
+
+    // The last `limit` rounds to start, as stored, then rounds from before
+    // start times were kept. Pair with scores.listSince() for who guessed.
+    async listRecent(limit: number): Promise<GameStat[]> {
+      const rows = await table('gameStats').list({ orderBy: { startedAt: 'desc' }, limit })
+      return rows.map(toGameStat)
+    },
+
+    async create(stat: GameStat): Promise<GameStat> {
+      const row = await table('gameStats').create(fromGameStat(stat))
+      return toGameStat(row)
+    },
+
+    async update(id: string, patch: Partial<GameStat>): Promise<void> {
+      await table('gameStats').update(id, fromGameStat(patch))
+    }
+  }
+
+  const wordCategories = {
+    async list(difficulty?: Difficulty): Promise<WordCategory[]> {
+      const rows = await table('wordCategories').list(
+        difficulty ? { where: { difficulty } } : undefined
+      )
+      return rows.map(toWordCategory)
+    },
+
+    async create(category: WordCategory): Promise<WordCategory> {
+      const row = await table('wordCategories').create(fromWordCategory(category))
+      return toWordCategory(row)
+    },
+
+    async update(id: string, patch: Partial<WordCategory>): Promise<void> {
+      await table('wordCategories').update(id, fromWordCategory(patch))
+    },
+
+    async delete(id: string): Promise<void> {
+      await table('wordCategories').delete(id)
+    }
+  }
+
+  // Things that happen once per install, such as seeding the default word packs.
+  const flags = {
+    async has(id: string): Promise<boolean> {
+      return !!(await table('appFlags').get(id))
+    },
+
+    // Setting a flag that is already set, even at the same moment, does nothing.
+    async set(id: string): Promise<void> {
+      const rows = table('appFlags')
+      if (await rows.get(id)) return
+      try {
+        await rows.create({ id, createdAt: now() })
+      } catch (error) {
+        if (!(await rows.get(id))) throw error
+      }
+    }
+  }
+
+  return { rooms, players, messages, strokes, stats, scores, wordCategories, flags }
+}
+
+export type Repository = ReturnType<typeof createRepository>
@@ -0,0 +1,135 @@
+import type { GameBackend } from '../backend/types'
+import type { Repository } from '../data/repository'
+import type { GameRoom } from '../types/game'
+import { roomChannel } from './protocol'
+
+// A holder renews every RENEW_MS. One that closes or freezes stops renewing,
+// and someone else can take over once LEASE_MS have passed.
+const LEASE_MS = 15000
+const RENEW_MS = 5000
+// Two clients can find the lease free at the same moment and both claim it.
+// Each reads it back after this long, and only the last writer goes ahead.
+const SETTLE_MS = 1000
+
+export interface AuthorityLease {
+  // Leaves the lease to whoever should hold it next, and goes on watching in
+  // case it comes back here.
+  standDown(): Promise<void>
+  release(): void
+}
+
+interface LeaseOptions {
+  backend: GameBackend
+  repo: Repository
+  roomId: string
+  // Unique to this tab, so a second tab of the same player stands down.
+  holderId: string
+  userId: string
+  onAcquired: () => void
+  onLost: () => void
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// The word must stay in the drawer's browser, so the lease is theirs while
+// they choose and draw, and the host's the rest of the time. Whoever it is
+// takes it as soon as it is free. Anyone else only takes over from a holder
+// that stopped renewing, and gives them another LEASE_MS to come back first.
+function isFreeFor(room: GameRoom, userId: string, now: number): boolean {
+  const drawing = room.phase === 'choosing_word' || room.phase === 'drawing'
+  const preferred = (drawing ? room.currentDrawerId : room.hostUserId) === userId
+  if (!room.authorityLeaseUntil) return preferred
+  return now >= new Date(room.authorityLeaseUntil).getTime() + (preferred ? 0 : LEASE_MS)
+}
+
+/**
+ * Keeps trying to hold the room's authority lease, stored on the room row in
+ * backend time, and says when this client gains or loses it. Only clients
+ * running the authority themselves need one.
+ */
+export function holdAuthorityLease({
+  backend,
+  repo,
+  roomId,
+  holderId,
+  userId,
+  onAcquired,
+  onLost
+}: LeaseOptions): AuthorityLease {
+  const now = () => backend.clock.now()
+  let held = false
+  let stopped = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let unsubscribe: (() => void) | null = null
+  let queue = Promise.resolve()
+
+  // Checks and writes run one at a time, so a late renewal can't undo a
+  // hand-over.
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(error => console.error('Authority lease error:', error))
+    return queue
+  }
+
+  const setHeld = (next: boolean) => {
+    if (next === held || stopped) return
+    held = next
+    if (next) onAcquired()
+    else onLost()
+  }
+
+  const claim = () =>
+    repo.rooms.update(roomId, { authorityId: holderId, authorityLeaseUntil: new Date(now() + LEASE_MS).toISOString() })
+
+  const check = async () => {
+    const room = await repo.rooms.get(roomId)
+    if (!room || stopped) return
+
+    if (room.authorityId === holderId) {
+      await claim()
+      setHeld(true)
+    } else if (isFreeFor(room, userId, now())) {
+      await claim()
+      await wait(SETTLE_MS)
+      setHeld((await repo.rooms.get(roomId))?.authorityId === holderId)
+    } else {
+      setHeld(false)
+    }
+  }
+
+  const tick = () => enqueue(async () => {
+    if (timer) clearTimeout(timer)
+    try {
+      await check()
+    } finally {
+      if (!stopped) timer = setTimeout(tick, RENEW_MS)
+    }
+  })
+
+  tick()
+  // A new phase may mean a new holder, so look again at once.
+  backend.realtime.subscribe(roomChannel(roomId), (message) => {
+    if (message.type === 'room_update') tick()
+  }).then((off) => {
+    if (stopped) off()
+    else unsubscribe = off
+  })
+
+  return {
+    standDown: () => enqueue(async () => {
+      setHeld(false)
+      await repo.rooms.update(roomId, { authorityId: null, authorityLeaseUntil: new Date(now()).toISOString() })
+    }),
+
+    // Lets the lease run out at once, so another client needn't wait for it.
+    release() {
+      if (timer) clearTimeout(timer)
+      unsubscribe?.()
+      const wasHeld = held
+      setHeld(false)
+      stopped = true
+      if (wasHeld) {
+        enqueue(() => repo.rooms.update(roomId, { authorityLeaseUntil: new Date(now()).toISOString() }))
+      }
+    }
+  }
+}
@@ -0,0 +1,639 @@
+import type { GameBackend, RealtimeMessage } from '../backend/types'
+import { gameStatId, scoreEventId, type Repository } from '../data/repository'
+import type { GameMessage, GameRoom, RoomPlayer, ScoreLine, WordEntry } from '../types/game'
+import { createId } from '../lib/ids'
+import { createSealingKeys, exportSealingKey, seal, unseal } from '../lib/sealing'
+import { judgeGuess } from './guess'
+import { maskWord, revealLetter, revealedCount } from './hints'
+import { reduce, type GameEvent, type MachineState } from './machine'
+import {
+  GAME_EVENT,
+  SEALED_MESSAGE,
+  authorityChannel,
+  chatChannel,
+  playerChannel,
+  roomChannel,
+  type GameEventPayload,
+  type GameIntent,
+  type GuessContent,
+  type GuessResultPayload,
+  type GuessedMessagePayload,
+  type PrivateMessage,
+  type SealedMessagePayload,
+  type SecretWordPayload,
+  type WordChoicesPayload,
+  type WordsRunningOutPayload
+} from './protocol'
+import { scoreDrawer, scoreGuess } from './scoring'
+import { createMemorySecrets, type RoundSecrets } from './secrets'
+import { loadWordHistory, pickWordChoices, type WordReuse } from './word-packs'
+import { earnedDifficulties, loadWordTotals, tallyRounds, toWordStats, type WordTotals } from './word-stats'
+
+const CHOOSE_WORD_MS = 15000
+const REVEAL_MS = 3000
+const INTERMISSION_MS = 2000
+// How long a player who left has to come back before they are dealt out.
+const LEAVE_GRACE_MS = 10000
+
+export interface RoomAuthority {
+  // An intent from the local player, handled without going over the network.
+  submit(intent: GameIntent): void
+  stop(): void
+}
+
+// The player whose browser runs the authority. Their private messages, the
+// word and the choices among them, are handed over without being published.
+export interface LocalPlayer {
+  userId: string
+  receive(type: string, data: any): void
+  // Another player's turn to choose a word: their browser takes over.
+  handOver(): Promise<void>
+}
+
+interface AuthorityOptions {
+  backend: GameBackend
+  repo: Repository
+  roomId: string
+  secrets?: RoundSecrets
+  // Left out on the server, which tells the drawer over their player channel.
+  localPlayer?: LocalPlayer
+}
+
+const byJoinOrder = (a: RoomPlayer, b: RoomPlayer) => a.joinedAt.localeCompare(b.joinedAt)
+
+// Until when a player who left may still come back and keep their turn.
+const graceEndsAt = (player: RoomPlayer) =>
+  player.leftAt ? new Date(player.leftAt).getTime() + LEAVE_GRACE_MS : null
+
+/**
+ * The single writer for a room. It runs the state machine, persists every
+ * transition and owns the phase timers. Clients only send intents, so a
+ * message seen by several clients can no longer advance the game twice.
+ */
+export function createRoomAuthority({
+  backend,
+  repo,
+  roomId,
+  secrets = createMemorySecrets(),
+  localPlayer
+}: AuthorityOptions): RoomAuthority {
+  let room: GameRoom | null = null
+  let players: RoomPlayer[] = []
+  let state: MachineState | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let hintTimers: ReturnType<typeof setTimeout>[] = []
+  // This round's guessed-only chat. It is kept out of the messages table,
+  // which every player can read, until the round is over.
+  let guessedChat: GameMessage[] = []
+  // The host hears about running out of words once per game and kind of reuse.
+  let reuseReported = new Set<WordReuse>()
+  // Read from recent rounds once per game, then kept up with this room's own.
+  let wordTotals: WordTotals | null = null
+  // Made afresh by each authority in a browser, so by every drawer's. Guesses
+  // come sealed for its public half, which is put on the room.
+  let guessKeys: CryptoKeyPair | null = null
+  // Each player's reply key, from their latest sealed guess.
+  const replyKeys = new Map<string, JsonWebKey>()
+  // Players who left, until their grace period is up. When they left is kept
+  // on their player row, so whoever runs the authority next keeps counting.
+  const leaving = new Map<string, ReturnType<typeof setTimeout>>()
+  let stopped = false
+  let queue = Promise.resolve()
+  const unsubscribers: (() => void)[] = []
+
+  // Every read-modify-write runs one at a time, in arrival order.
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(error => console.error('Room authority error:', error))
+  }
+
+  const publish = (type: string, data: any) => backend.realtime.publish(roomChannel(roomId), type, data)
+  const tell = (userId: string, type: string, data: any) =>
+    backend.realtime.publish(playerChannel(roomId, userId), type, data)
+  // Anyone could listen in on a player channel, so in a browser private
+  // messages are handed straight to this tab's own player, or sealed for the
+  // reply key the player last sent. Players who haven't sent one to this
+  // authority get nothing until they do.
+  const tellPrivately = async (userId: string, type: string, data: any) => {
+    if (!localPlayer) return tell(userId, type, data)
+    if (userId === localPlayer.userId) return localPlayer.receive(type, data)
+    const replyKey = replyKeys.get(userId)
+    const message: PrivateMessage = { type, data }
+    const sealed = replyKey ? await seal(replyKey, message).catch(() => null) : null
+    if (!sealed) return
+    const payload: SealedMessagePayload = { sealed }
+    await tell(userId, SEALED_MESSAGE, payload)
+  }
+  const isRemoteDrawer = (current: MachineState) => !!localPlayer && current.drawerId !== localPlayer.userId
+
+  const playerName = (userId: string | null) =>
+    players.find(p => p.userId === userId)?.displayName ?? 'Player'
+  const playerTeam = (userId: string | null) =>
+    players.find(p => p.userId === userId)?.team ?? null
+
+  const updateRoom = async (patch: Partial<GameRoom>) => {
+    await repo.rooms.update(roomId, patch)
+    room = { ...room!, ...patch }
+  }
+
+  // Deadlines are absolute and in backend time, so every client's countdown
+  // and this authority's timer agree on when a phase ends.
+  const now = () => backend.clock.now()
+  const isoAt = (time: number) => new Date(time).toISOString()
+
+  // Fires `event` once `endsAt` has passed; a missing deadline fires at once.
+  const scheduleAt = (event: GameEvent, endsAt: string | null) => {
+    if (timer) clearTimeout(timer)
+    const delayMs = endsAt ? new Date(endsAt).getTime() - now() : 0
+    timer = setTimeout(() => {
+      timer = null
+      enqueue(() => dispatch(event))
+    }, Math.max(0, delayMs))
+  }
+
+  const clearHints = () => {
+    hintTimers.forEach(clearTimeout)
+    hintTimers = []
+  }
+
+  // Hints are due at fixed points after the round started, and the ones already
+  // given are visible in the mask, so a restarted authority keeps the schedule.
+  const scheduleHints = (round: number) => {
+    clearHints()
+    if (!room?.roundStartTime || !room.wordMask) return
+    const startedAt = new Date(room.roundStartTime).getTime()
+    for (const fraction of room.hintSchedule.slice(revealedCount(room.wordMask))) {
+      const delayMs = startedAt + fraction * room.roundTime * 1000 - now()
+      hintTimers.push(setTimeout(() => enqueue(() => giveHint(round)), Math.max(0, delayMs)))
+    }
+  }
+
+  const setLeftAt = async (player: RoomPlayer, leftAt: string | null) => {
+    await repo.players.update(player.id, { leftAt })
+    player.leftAt = leftAt
+  }
+
+  // Deals the player out at `at`, unless they come back first.
+  const scheduleLeave = (playerId: string, at: number) => {
+    clearTimeout(leaving.get(playerId))
+    leaving.set(playerId, setTimeout(() => {
+      leaving.delete(playerId)
+      enqueue(() => dispatch({ type: 'PLAYER_LEFT', playerId }))
+    }, Math.max(0, at - now())))
+  }
+
+  const secondsLeft = () => {
+    if (!room?.phaseEndsAt) return 0
+    return Math.max(0, (new Date(room.phaseEndsAt).getTime() - now()) / 1000)
+  }
+
+  async function dispatch(event: GameEvent) {
+    if (!state || stopped) return
+    const prev = state
+    const next = reduce(prev, event)
+    if (next === prev) return
+    state = next
+
+    if (event.type === 'CORRECT_GUESS') {
+      await recordCorrectGuess(event.playerId, next)
+    }
+    if (next.phase !== prev.phase || next.round !== prev.round) {
+      await enterPhase(next, event)
+    }
+  }
+
+  // Scores and guessers are never rewritten, only appended to as score events.
+  const award = (round: number, line: ScoreLine, guessOrder: number) => {
+    const gameNumber = room!.gameNumber
+    const id = scoreEventId(roomId, gameNumber, round, line.role, line.userId)
+    return repo.scores.record({ ...line, id, roomId, gameNumber, roundNumber: round, guessOrder })
+  }
+
+  async function recordCorrectGuess(playerId: string, next: MachineState) {
+    const order = next.guessed.indexOf(playerId)
+    const line = scoreGuess(room!.scoring, {
+      userId: playerId,
+      team: playerTeam(playerId),
+      secondsLeft: secondsLeft(),
+      roundTime: room!.roundTime,
+      order
+    })
+    if (!(await award(next.round, line, order))) return
+    const points = line.points
+
+    const result: GuessResultPayload = { round: next.round, correct: true, close: false, points }
+    await tellPrivately(playerId, 'guess_result', result)
+    // Catch the new guesser up on what the others have been saying.
+    for (const message of guessedChat) {
+      const payload: GuessedMessagePayload = { round: next.round, message }
+      await tellPrivately(playerId, 'guessed_message', payload)
+    }
+
+    const data = { playerName: playerName(playerId), playerId, points }
+    await publish('correct_guess', data)
+    await backend.realtime.publish(chatChannel(roomId), 'correct_guess', data)
+  }
+
+  async function sendWordToDrawer(current: MachineState) {
+    if (!current.drawerId || !current.word) return
+    const payload: SecretWordPayload = { round: current.round, word: current.word }
+    await tellPrivately(current.drawerId, 'secret_word', payload)
+  }
+
+  async function sendChoicesToDrawer(current: MachineState) {
+    const choices = secrets.loadChoices(roomId, current.round)
+    if (!current.drawerId || choices.length === 0) return
+    const payload: WordChoicesPayload = { round: current.round, choices: choices.map(entry => entry.word) }
+    await tellPrivately(current.drawerId, 'word_choices', payload)
+  }
+
+  // Choices come shuffled, so the first one is as good as a random pick.
+  const autoPickAt = (current: MachineState, endsAt: string | null) => {
+    const [first] = secrets.loadChoices(roomId, current.round)
+    if (first) scheduleAt({ type: 'WORD_CHOSEN', round: current.round, word: first.word, auto: true }, endsAt)
+  }
+
+  // The revealed letters live in the room's mask, so every client shows the
+  // same ones.
+  async function giveHint(round: number) {
+    if (!state || state.phase !== 'drawing' || state.round !== round || !state.word || !room?.wordMask) return
+    const wordMask = revealLetter(state.word, room.wordMask)
+    if (wordMask === room.wordMask) return
+    await updateRoom({ wordMask })
+    await publish('room_update', { action: 'hint', round })
+  }
+
+  // Guessed-only chat may name the word, so it stays private while the drawer
+  // is choosing or drawing.
+  async function releaseGuessedChat() {
+    const released = guessedChat
+    guessedChat = []
+    for (const message of released) await repo.messages.create(message)
+    if (released.length > 0) {
+      await backend.realtime.publish(chatChannel(roomId), 'new_message', { messageId: released[released.length - 1].id, isCorrect: false })
+    }
+  }
+
+  async function enterPhase(next: MachineState, cause?: GameEvent) {
+    clearHints()
+    if (next.phase !== 'choosing_word' && next.phase !== 'drawing') await releaseGuessedChat()
+    switch (next.phase) {
+      case 'lobby':
+        await updateRoom({ gameState: 'waiting', phase: 'lobby', currentRound: 0, currentDrawerId: null, wordMask: null, lastWord: null, phaseEndsAt: null })
+        await publish('room_update', { action: 'reset' })
+        break
+
+      case 'choosing_word': {
+        await updateRoom({
+          // Only a game that is starting counts, not an authority taking over round 1.
+          ...(cause?.type === 'START_GAME' ? { gameNumber: room!.gameNumber + 1 } : {}),
+          gameState: 'playing',
+          phase: 'choosing_word',
+          currentRound: next.round,
+          currentDrawerId: next.drawerId,
+          wordMask: null,
+          lastWord: null,
+          roundStartTime: null,
+          phaseEndsAt: isoAt(now() + CHOOSE_WORD_MS)
+        })
+        if (isRemoteDrawer(next)) {
+          // The drawer's browser picks the words, so they never leave it.
+          await localPlayer!.handOver()
+          await publish('room_update', { action: 'choosing_word', drawer: playerName(next.drawerId), round: next.round })
+          break
+        }
+        if (next.round === 1) reuseReported = new Set()
+        if (next.round === 1 || !wordTotals) wordTotals = await loadWordTotals(repo)
+        const earned = earnedDifficulties(toWordStats(wordTotals))
+        const history = await loadWordHistory(repo, room!, next.turnOrder)
+        const { choices, reused } = await pickWordChoices(repo, room!, room!.wordChoiceCount, { history, earned })
+        secrets.saveChoices(roomId, next.round, choices)
+        if (reused && !reuseReported.has(reused)) {
+          reuseReported.add(reused)
+          const warning: WordsRunningOutPayload = { round: next.round, reused }
+          await tell(room!.hostUserId, 'words_running_out', warning)
+        }
+        if (choices.length === 1) {
+          await dispatch({ type: 'WORD_CHOSEN', round: next.round, word: choices[0].word, auto: true })
+          break
+        }
+        await publish('room_update', { action: 'choosing_word', drawer: playerName(next.drawerId), round: next.round })
+        await sendChoicesToDrawer(next)
+        autoPickAt(next, room!.phaseEndsAt)
+        break
+      }
+
+      case 'drawing': {
+        if (next.word) secrets.save(roomId, next.round, next.word)
+        const startedAt = now()
+        await updateRoom({
+          phase: 'drawing',
+          wordMask: maskWord(next.word ?? ''),
+          roundStartTime: isoAt(startedAt),
+          phaseEndsAt: isoAt(startedAt + room!.roundTime * 1000)
+        })
+        const existing = await repo.stats.getRound(roomId, room!.gameNumber, next.round)
+        if (!existing) {
+          await repo.stats.create({
+            id: gameStatId(roomId, room!.gameNumber, next.round),
+            roomId,
+            gameNumber: room!.gameNumber,
+            roundNumber: next.round,
+            drawerId: next.drawerId ?? '',
+            // Filled in at the reveal; until then the word is a secret.
+            word: '',
+            wordChoices: [],
+            autoPicked: cause?.type === 'WORD_CHOSEN' && !!cause.auto,
+            startedAt: isoAt(startedAt),
+            possibleGuessers: next.turnOrder.filter(id => id !== next.drawerId).length,
+            correctGuessers: [],
+            breakdown: []
+          })
+        }
+        await sendWordToDrawer(next)
+        scheduleHints(next.round)
+        await publish('room_update', {
+          action: next.round === 1 ? 'game_started' : 'next_round',
+          drawer: playerName(next.drawerId),
+          round: next.round
+        })
+        scheduleAt({ type: 'TIMER_EXPIRED', round: next.round }, room!.phaseEndsAt)
+        break
+      }
+
+      case 'reveal': {
+        await updateRoom({ phase: 'reveal', wordMask: null, lastWord: next.word, phaseEndsAt: isoAt(now() + REVEAL_MS) })
+        const stats = await repo.stats.getRound(roomId, room!.gameNumber, next.round)
+        // Everyone who got there in time, in the order they guessed.
+        const winners = stats?.correctGuessers ?? next.guessed
+        // The drawer is paid once the round is over and every guess is in.
+        const drawerLine = next.drawerId
+          ? scoreDrawer(room!.scoring, {
+            userId: next.drawerId,
+            team: playerTeam(next.drawerId),
+            teamMode: room!.teamMode,
+            guessers: winners.map(userId => ({ userId, team: playerTeam(userId) })),
+            possibleGuessers: next.turnOrder.filter(id => id !== next.drawerId).length
+          })
+          : null
+        if (drawerLine) await award(next.round, drawerLine, 0)
+        if (stats && next.word) {
+          await repo.stats.update(stats.id, { word: next.word, wordChoices: secrets.loadChoices(roomId, next.round).map(entry => entry.word) })
+          if (wordTotals) tallyRounds([{ ...stats, word: next.word }], await repo.scores.listByRound(roomId, room!.gameNumber, next.round), wordTotals)
+        }
+        await publish('round_end', { game: room!.gameNumber, round: next.round, winners, correctWord: next.word })
+        scheduleAt({ type: 'REVEAL_FINISHED', round: next.round }, room!.phaseEndsAt)
+        break
+      }
+
+      case 'intermission':
+        await updateRoom({ phase: 'intermission', phaseEndsAt: isoAt(now() + INTERMISSION_MS) })
+        await publish('room_update', { action: 'intermission', round: next.round })
+        scheduleAt({ type: 'INTERMISSION_FINISHED', round: next.round }, room!.phaseEndsAt)
+        break
+
+      case 'finished':
+        if (timer) clearTimeout(timer)
+        await updateRoom({ gameState: 'finished', phase: 'finished', currentDrawerId: null, phaseEndsAt: null })
+        await publish('room_update', { action: 'game_finished' })
+        break
+    }
+  }
+
+  async function load() {
+    room = await repo.rooms.get(roomId)
+    if (!room) throw new Error(`Room ${roomId} not found`)
+    if (localPlayer) {
+      guessKeys = await createSealingKeys()
+      await updateRoom({ guessKey: JSON.stringify(await exportSealingKey(guessKeys.publicKey)) })
+      await publish('room_update', { action: 'guess_key' })
+    }
+    players = (await repo.players.listByRoom(roomId)).sort(byJoinOrder)
+    const stats = await repo.stats.getRound(roomId, room.gameNumber, room.currentRound)
+    // Players whose grace ran out are already dealt out. The drawer stays in
+    // until the round is over, so leaving still ends it.
+    const inGame = players.filter(p => p.userId === room!.currentDrawerId || (graceEndsAt(p) ?? Infinity) > now())
+
+    state = {
+      phase: room.phase,
+      round: room.currentRound,
+      maxRounds: room.maxRounds,
+      roundEndMode: room.roundEndMode,
+      turnOrder: inGame.map(p => p.userId),
+      drawerId: room.currentDrawerId,
+      word: secrets.load(roomId, room.currentRound),
+      guessed: stats?.correctGuessers ?? []
+    }
+
+    for (const player of inGame) {
+      const endsAt = graceEndsAt(player)
+      if (endsAt !== null) scheduleLeave(player.userId, endsAt)
+    }
+
+    // The drawer's browser was meant to take over, and it didn't. Others only
+    // take over once the lease has been free for longer than the grace period,
+    // so the drawer is out of the game for good until they come back.
+    if ((state.phase === 'choosing_word' || state.phase === 'drawing') && isRemoteDrawer(state)) {
+      const drawer = players.find(p => p.userId === state!.drawerId)
+      if (drawer && !drawer.leftAt) await setLeftAt(drawer, isoAt(now() - LEAVE_GRACE_MS))
+      await dispatch({ type: 'PLAYER_LEFT', playerId: state.drawerId! })
+      return
+    }
+
+    // Pick up where a previous authority (e.g. before a drawer reload) left off.
+    switch (state.phase) {
+      case 'choosing_word':
+        // Offer the same words again if they were kept, otherwise start over.
+        if (secrets.loadChoices(roomId, state.round).length > 0) {
+          await sendChoicesToDrawer(state)
+          autoPickAt(state, room.phaseEndsAt)
+        } else {
+          await enterPhase(state)
+        }
+        break
+      case 'drawing':
+        // Without the word the round can't be judged, so it is ended early.
+        scheduleAt({ type: 'TIMER_EXPIRED', round: state.round }, state.word ? room.phaseEndsAt : null)
+        if (state.word) scheduleHints(state.round)
+        await sendWordToDrawer(state)
+        break
+      case 'reveal':
+        scheduleAt({ type: 'REVEAL_FINISHED', round: state.round }, room.phaseEndsAt)
+        break
+      case 'intermission':
+        scheduleAt({ type: 'INTERMISSION_FINISHED', round: state.round }, room.phaseEndsAt)
+        break
+    }
+  }
+
+  // The chosen word with its aliases. Only the word survives a restart when the
+  // choices were not kept, so that is judged on its own.
+  const currentEntry = (current: MachineState): WordEntry => {
+    const word = current.word ?? ''
+    return secrets.loadChoices(roomId, current.round).find(entry => entry.word === word) ?? { word, aliases: [] }
+  }
+
+  // The drawer, and anyone who has guessed, chat among themselves.
+  const chatsGuessedOnly = (current: MachineState, senderId: string) =>
+    (current.phase === 'choosing_word' || current.phase === 'drawing') &&
+    (senderId === current.drawerId || (current.phase === 'drawing' && current.guessed.includes(senderId)))
+
+  async function relayGuessedChat(senderId: string, intent: Extract<GameIntent, { type: 'guess' }>, text: string) {
+    const message: GameMessage = {
+      id: createId('msg'),
+      roomId,
+      userId: senderId,
+      displayName: intent.displayName,
+      message: text,
+      isGuess: false,
+      isCorrect: false,
+      guessedOnly: true,
+      createdAt: isoAt(now())
+    }
+    guessedChat.push(message)
+    const payload: GuessedMessagePayload = { round: state!.round, message }
+    const audience = new Set([state!.drawerId, ...state!.guessed].filter((id): id is string => !!id))
+    for (const userId of audience) await tellPrivately(userId, 'guessed_message', payload)
+  }
+
+  async function handleGuess(senderId: string, intent: Extract<GameIntent, { type: 'guess' }>) {
+    const text = intent.text.trim()
+    if (!state || !text) return
+
+    if (chatsGuessedOnly(state, senderId)) {
+      await relayGuessedChat(senderId, intent, text)
+      return
+    }
+
+    const isGuess = state.phase === 'drawing' &&
+      intent.round === state.round &&
+      senderId !== state.drawerId &&
+      !state.guessed.includes(senderId)
+    const verdict = isGuess && state.word ? judgeGuess(text, currentEntry(state), room?.acceptPlurals) : 'wrong'
+    const isCorrect = verdict === 'correct'
+
+    if (verdict === 'close') {
+      // Nearly the answer, so showing it to the room would give the word away.
+      const result: GuessResultPayload = { round: state.round, correct: false, close: true, text, points: 0 }
+      await tellPrivately(senderId, 'guess_result', result)
+      return
+    }
+
+    const message = await repo.messages.create({
+      id: createId('msg'),
+      roomId,
+      userId: senderId,
+      displayName: intent.displayName,
+      // A correct guess is the answer itself, so it is never stored.
+      message: isCorrect ? '' : text,
+      isGuess,
+      isCorrect,
+      guessedOnly: false
+    })
+    await backend.realtime.publish(chatChannel(roomId), 'new_message', {
+      messageId: message.id,
+      isCorrect
+    })
+
+    if (isCorrect) {
+      await dispatch({ type: 'CORRECT_GUESS', round: state.round, playerId: senderId })
+    } else if (isGuess) {
+      const result: GuessResultPayload = { round: state.round, correct: false, close: false, points: 0 }
+      await tellPrivately(senderId, 'guess_result', result)
+    }
+  }
+
+  async function handleGameEvent({ intent }: GameEventPayload, senderId?: string) {
+    if (!senderId) return
+    switch (intent.type) {
+      case 'start_game':
+        if (senderId !== room?.hostUserId) return
+        players = (await repo.players.listByRoom(roomId)).sort(byJoinOrder)
+        await dispatch({ type: 'START_GAME', playerIds: players.filter(p => !p.leftAt).map(p => p.userId) })
+        break
+
+      case 'guess':
+        // Sent in the clear, anyone could have read it, so in a browser only
+        // sealed guesses count.
+        if (!localPlayer) await handleGuess(senderId, intent)
+        break
+
+      case 'sealed_guess': {
+        if (!guessKeys) return
+        // Sealed for a previous drawer's key, or not a guess at all.
+        const guess = await unseal<GuessContent>(guessKeys.privateKey, intent.sealed).catch(() => null)
+        if (!guess || typeof guess.text !== 'string') return
+        if (guess.replyKey && typeof guess.replyKey === 'object') replyKeys.set(senderId, guess.replyKey)
+        await handleGuess(senderId, { type: 'guess', round: intent.round, text: guess.text, displayName: String(guess.displayName) })
+        break
+      }
+
+      case 'choose_word': {
+        if (!state || state.phase !== 'choosing_word' || senderId !== state.drawerId) return
+        const offered = secrets.loadChoices(roomId, state.round)
+        if (!offered.some(entry => entry.word === intent.word)) return
+        await dispatch({ type: 'WORD_CHOSEN', round: intent.round, word: intent.word })
+        break
+      }
+
+      case 'update_words': {
+        if (senderId !== room?.hostUserId || state?.phase !== 'lobby') return
+        const categoryIds = Array.isArray(intent.categoryIds) ? intent.categoryIds.map(String) : []
+        const share = Number(intent.customWordShare)
+        await updateRoom({ categoryIds, customWordShare: Number.isFinite(share) ? Math.min(1, Math.max(0, share)) : room.customWordShare })
+        await publish('room_update', { action: 'words_updated' })
+        break
+      }
+
+      case 'request_word':
+        if (!state || senderId !== state.drawerId || intent.round !== state.round) return
+        if (state.phase === 'choosing_word') await sendChoicesToDrawer(state)
+        else await sendWordToDrawer(state)
+        break
+    }
+  }
+
+  // Mid-game joiners are dealt in at the end of the turn order. Someone who
+  // leaves is only dealt out after LEAVE_GRACE_MS, so a reload keeps their turn.
+  async function handlePlayerUpdate(data: { action?: string }, playerId?: string) {
+    players = (await repo.players.listByRoom(roomId)).sort(byJoinOrder)
+    const player = players.find(p => p.userId === playerId)
+    if (!player) return
+
+    if (data.action === 'joined') {
+      clearTimeout(leaving.get(player.userId))
+      leaving.delete(player.userId)
+      if (player.leftAt) await setLeftAt(player, null)
+      await dispatch({ type: 'PLAYER_JOINED', playerId: player.userId })
+    } else if (data.action === 'left' && !player.leftAt) {
+      await setLeftAt(player, isoAt(now()))
+      scheduleLeave(player.userId, graceEndsAt(player)!)
+    }
+  }
+
+  const listen = (channel: string, type: string, handler: (data: any, senderId?: string) => Promise<void>) => {
+    backend.realtime.subscribe(channel, (message: RealtimeMessage) => {
+      if (message.type === type) enqueue(() => handler(message.data, message.userId))
+    }).then((unsubscribe) => {
+      if (stopped) unsubscribe()
+      else unsubscribers.push(unsubscribe)
+    })
+  }
+
+  enqueue(load)
+  listen(authorityChannel(roomId), GAME_EVENT, handleGameEvent)
+  listen(roomChannel(roomId), 'player_update', handlePlayerUpdate)
+
+  return {
+    submit(intent) {
+      if (localPlayer) enqueue(() => handleGameEvent({ intent }, localPlayer.userId))
+    },
+
+    stop() {
+      stopped = true
+      if (timer) clearTimeout(timer)
+      clearHints()
+      leaving.forEach(clearTimeout)
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }
+}
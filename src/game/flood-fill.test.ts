@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { floodFill, type Pixels } from './flood-fill'
+
+type Rgba = [number, number, number, number]
+
+const WHITE: Rgba = [255, 255, 255, 255]
+const BLACK: Rgba = [0, 0, 0, 255]
+const RED: Rgba = [255, 0, 0, 255]
+
+// A `width` by `height` image in one color.
+function image(width: number, height: number, color: Rgba = WHITE): Pixels {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let p = 0; p < width * height; p++) data.set(color, p * 4)
+  return { data, width, height }
+}
+
+const paint = (pixels: Pixels, x: number, y: number, color: Rgba) => pixels.data.set(color, (y * pixels.width + x) * 4)
+const at = (pixels: Pixels, x: number, y: number) => [...pixels.data.slice((y * pixels.width + x) * 4, (y * pixels.width + x) * 4 + 4)]
+
+// Which pixels are `color`, row by row, as '#' and '.'.
+const picture = (pixels: Pixels, color: Rgba) =>
+  Array.from({ length: pixels.height }, (_, y) =>
+    Array.from({ length: pixels.width }, (_, x) => (at(pixels, x, y).join() === color.join() ? '#' : '.')).join(''))
+
+describe('flood fill', () => {
+  it('fills everything on a blank page, right up to the edges', () => {
+    const pixels = image(4, 3)
+    expect(floodFill(pixels, 2, 1, '#ff0000', 0)).toBe(true)
+    expect(picture(pixels, RED)).toEqual(['####', '####', '####'])
+  })
+
+  it('stops at lines', () => {
+    const pixels = image(5, 5)
+    for (let i = 0; i < 5; i++) paint(pixels, 2, i, BLACK)
+    expect(floodFill(pixels, 0, 0, '#ff0000', 0)).toBe(true)
+    expect(picture(pixels, RED)).toEqual(['##...', '##...', '##...', '##...', '##...'])
+  })
+
+  it('doesn\'t leak through a diagonal line', () => {
+    const pixels = image(5, 5)
+    for (let i = 0; i < 5; i++) paint(pixels, i, 4 - i, BLACK)
+    floodFill(pixels, 0, 0, '#ff0000', 0)
+    expect(picture(pixels, RED)).toEqual(['####.', '###..', '##...', '#....', '.....'])
+  })
+
+  it('fills a shape with a hole in it around the hole', () => {
+    const pixels = image(5, 5)
+    paint(pixels, 2, 2, BLACK)
+    floodFill(pixels, 0, 0, '#ff0000', 0)
+    expect(picture(pixels, RED)).toEqual(['#####', '#####', '##.##', '#####', '#####'])
+    expect(at(pixels, 2, 2)).toEqual(BLACK)
+  })
+
+  it('takes in colors within the tolerance, and no further', () => {
+    const pixels = image(3, 1)
+    paint(pixels, 1, 0, [230, 230, 230, 255])
+    paint(pixels, 2, 0, [200, 200, 200, 255])
+    floodFill(pixels, 0, 0, '#ff0000', 25)
+    expect(picture(pixels, RED)).toEqual(['##.'])
+
+    const wider = image(3, 1)
+    paint(wider, 1, 0, [230, 230, 230, 255])
+    paint(wider, 2, 0, [200, 200, 200, 255])
+    floodFill(wider, 0, 0, '#ff0000', 55)
+    expect(picture(wider, RED)).toEqual(['###'])
+  })
+
+  it('treats erased pixels as the white page', () => {
+    const pixels = image(3, 1)
+    paint(pixels, 1, 0, [0, 0, 0, 0])
+    floodFill(pixels, 0, 0, '#ff0000', 0)
+    expect(picture(pixels, RED)).toEqual(['###'])
+  })
+
+  it('mixes a see-through color into what was there', () => {
+    const pixels = image(2, 1, [0, 0, 255, 255])
+    expect(floodFill(pixels, 0, 0, '#ff000080', 0)).toBe(true)
+    const [r, g, b, a] = at(pixels, 1, 0)
+    expect(a).toBe(255)
+    expect(r).toBeCloseTo(128, -1)
+    expect(g).toBe(0)
+    expect(b).toBeCloseTo(127, -1)
+  })
+
+  it('fills each pixel once, even when the new color matches the old', () => {
+    const pixels = image(3, 3)
+    floodFill(pixels, 1, 1, '#ffffff80', 255)
+    expect(picture(pixels, WHITE)).toEqual(['###', '###', '###'])
+  })
+
+  it('changes nothing when there is nothing to fill', () => {
+    const pixels = image(2, 2, RED)
+    expect(floodFill(pixels, 0, 0, '#ff0000', 0)).toBe(false)
+    expect(floodFill(pixels, -1, 0, '#00ff00', 0)).toBe(false)
+    expect(floodFill(pixels, 0, 2, '#00ff00', 0)).toBe(false)
+    expect(floodFill(pixels, 0, 0, 'not a color', 0)).toBe(false)
+    expect(picture(pixels, RED)).toEqual(['##', '##'])
+  })
+})
@@ -0,0 +1,75 @@
+import { parseHex } from '../lib/colors'
+
+// The bucket tool. Works on raw RGBA pixels, so a fill replays the same way
+// wherever the canvas underneath matches.
+
+export interface Pixels {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+/**
+ * Fills the area around (x, y) whose colors are within `tolerance` (0 to 255,
+ * per channel) of the color there. Pixels are compared as they look over the
+ * white page, so erased and untouched areas count as the same white. Filled
+ * pixels become opaque, with a see-through color mixed into what was there.
+ * Returns whether anything was filled.
+ */
+export function floodFill(pixels: Pixels, x: number, y: number, color: string, tolerance: number): boolean {
+  const { data, width, height } = pixels
+  const rgba = parseHex(color)
+  const fill = rgba && [rgba.r, rgba.g, rgba.b]
+  const seedX = Math.floor(x)
+  const seedY = Math.floor(y)
+  if (!fill || seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) return false
+
+  // Channel `c` of pixel `p` as it looks over white.
+  const seen = (p: number, c: number) => {
+    const alpha = data[p * 4 + 3]
+    return (data[p * 4 + c] * alpha + 255 * (255 - alpha)) / 255
+  }
+  const seed = seedY * width + seedX
+  const target = [seen(seed, 0), seen(seed, 1), seen(seed, 2)]
+  const done = new Uint8Array(width * height)
+  const matches = (p: number) =>
+    done[p] === 0 &&
+    Math.abs(seen(p, 0) - target[0]) <= tolerance &&
+    Math.abs(seen(p, 1) - target[1]) <= tolerance &&
+    Math.abs(seen(p, 2) - target[2]) <= tolerance
+
+  // Filling an area with the color it already is changes nothing.
+  if (data[seed * 4 + 3] === 255 && rgba.a === 1 && fill.every((value, c) => value === data[seed * 4 + c]) && tolerance === 0) {
+    return false
+  }
+
+  // Scanline fill: each popped seed fills its whole row span, then queues the
+  // first pixel of every matching run in the rows above and below.
+  const stack = [seed]
+  while (stack.length > 0) {
+    const start = stack.pop()!
+    if (!matches(start)) continue
+    const row = Math.floor(start / width) * width
+    let left = start
+    while (left > row && matches(left - 1)) left--
+    let right = start
+    while (right < row + width - 1 && matches(right + 1)) right++
+
+    for (let p = left; p <= right; p++) {
+      done[p] = 1
+      for (let c = 0; c < 3; c++) data[p * 4 + c] = fill[c] * rgba.a + seen(p, c) * (1 - rgba.a)
+      data[p * 4 + 3] = 255
+    }
+
+    for (const next of [row - width, row + width]) {
+      if (next < 0 || next >= width * height) continue
+      let inRun = false
+      for (let p = left - row + next; p <= right - row + next; p++) {
+        const match = matches(p)
+        if (match && !inRun) stack.push(p)
+        inRun = match
+      }
+    }
+  }
+  return true
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { closeGuessThreshold, editDistance, judgeGuess, normalizeGuess } from './guess'
+
+const entry = (word: string, aliases: string[] = []) => ({ word, aliases })
+
+describe('guess', () => {
+  it('counts single-letter edits', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+    expect(editDistance('cat', 'cat')).toBe(0)
+    expect(editDistance('', 'cat')).toBe(3)
+    expect(editDistance('cat', '')).toBe(3)
+    expect(editDistance('elephant', 'elefant')).toBe(2)
+  })
+
+  it('allows more typos in longer words', () => {
+    expect([1, 3, 4, 7, 8, 20].map(closeGuessThreshold)).toEqual([0, 0, 1, 1, 2, 2])
+  })
+
+  it('drops accents, case and punctuation', () => {
+    expect(normalizeGuess('Crème Brûlée!')).toBe('creme brulee')
+    expect(normalizeGuess('  ICE---cream  ')).toBe('ice cream')
+    expect(normalizeGuess('?!')).toBe('')
+  })
+
+  it('accepts the word however it is spaced or written', () => {
+    const iceCream = entry('ice cream')
+    expect(judgeGuess('ice cream', iceCream)).toBe('correct')
+    expect(judgeGuess('Ice-Cream', iceCream)).toBe('correct')
+    expect(judgeGuess('icecream', iceCream)).toBe('correct')
+    expect(judgeGuess('crème', entry('creme'))).toBe('correct')
+  })
+
+  it('accepts aliases', () => {
+    expect(judgeGuess('automobile', entry('car', ['automobile']))).toBe('correct')
+  })
+
+  it('calls near misses close, within the threshold', () => {
+    // Short words have no slack, so one letter off is simply wrong.
+    expect(judgeGuess('bat', entry('cat'))).toBe('wrong')
+    expect(judgeGuess('hous', entry('house'))).toBe('close')
+    expect(judgeGuess('hoose', entry('house'))).toBe('close')
+    expect(judgeGuess('hose', entry('horse'))).toBe('close')
+    expect(judgeGuess('hoos', entry('house'))).toBe('wrong')
+    expect(judgeGuess('elefant', entry('elephant'))).toBe('close')
+    expect(judgeGuess('elefan', entry('elephant'))).toBe('wrong')
+  })
+
+  it('accepts the plural of the answer when plurals are on', () => {
+    expect(judgeGuess('cats', entry('cat'))).toBe('correct')
+    expect(judgeGuess('boxes', entry('box'))).toBe('correct')
+    expect(judgeGuess('puppies', entry('puppy'))).toBe('correct')
+    expect(judgeGuess('cats', entry('cat'), false)).not.toBe('correct')
+  })
+
+  it('never takes letters off the answer', () => {
+    expect(judgeGuess('cat', entry('cats'))).not.toBe('correct')
+    expect(judgeGuess('bu', entry('bus'))).not.toBe('correct')
+    expect(judgeGuess('new', entry('news'))).not.toBe('correct')
+  })
+
+  it('judges guesses with nothing to compare as wrong', () => {
+    expect(judgeGuess('!!!', entry('cat'))).toBe('wrong')
+    expect(judgeGuess('', entry('cat'))).toBe('wrong')
+  })
+})
@@ -0,0 +1,54 @@
+import type { WordEntry } from '../types/game'
+
+export type GuessVerdict = 'correct' | 'close' | 'wrong'
+
+// Levenshtein distance: single-letter insertions, deletions and substitutions.
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// How many typos still count as close. Short words get none, since one edit
+// away from "cat" is a different word rather than a near miss.
+export const closeGuessThreshold = (wordLength: number) =>
+  wordLength <= 3 ? 0 : wordLength <= 7 ? 1 : 2
+
+// Drops accents, case and punctuation, so "Crème Brûlée!" reads as
+// "creme brulee". Words stay separated by single spaces.
+export const normalizeGuess = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+
+// What guesses are compared on: "ice-cream", "ice cream" and "icecream" all
+// count as the same answer.
+const compareKey = (text: string) => normalizeGuess(text).replace(/ /g, '')
+
+// Simple English plurals of an answer. Only suffixes are ever added: taking
+// letters off would accept "bu" for "bus" or "new" for "news".
+function pluralForms(key: string): string[] {
+  const forms = [key, `${key}s`]
+  if (/(?:s|x|z|ch|sh|o)$/.test(key)) forms.push(`${key}es`)
+  if (/[^aeiou]y$/.test(key)) forms.push(`${key.slice(0, -1)}ies`)
+  return forms
+}
+
+export function judgeGuess(guess: string, entry: WordEntry, acceptPlurals = true): GuessVerdict {
+  const attempt = compareKey(guess)
+  if (!attempt) return 'wrong'
+  const answers = [entry.word, ...entry.aliases].map(compareKey).filter(answer => answer.length > 0)
+  const accepted = answers.flatMap(answer => (acceptPlurals ? pluralForms(answer) : [answer]))
+  if (accepted.includes(attempt)) return 'correct'
+  return answers.some(answer => editDistance(attempt, answer) <= closeGuessThreshold(answer.length)) ? 'close' : 'wrong'
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { letterCount, maskWord, revealLetter, revealedCount } from './hints'
+
+// Always picks the first, or the last, hidden letter.
+const first = () => 0
+const last = () => 0.999
+
+describe('hints', () => {
+  it('hides letters but keeps spaces, hyphens and commas', () => {
+    expect(maskWord('ice cream')).toBe('___ _____')
+    expect(maskWord('t-rex')).toBe('_-___')
+    expect(maskWord('salt, pepper')).toBe('____, ______')
+    expect(maskWord('')).toBe('')
+  })
+
+  it('counts letter slots and the ones shown', () => {
+    expect(letterCount('___ _____')).toBe(8)
+    expect(revealedCount('___ _____')).toBe(0)
+    expect(letterCount('i__ c____')).toBe(8)
+    expect(revealedCount('i__ c____')).toBe(2)
+    expect(revealedCount('_-r__')).toBe(1)
+  })
+
+  it('reveals one letter at a hidden position', () => {
+    expect(revealLetter('ice cream', '___ _____', first)).toBe('i__ _____')
+    expect(revealLetter('ice cream', 'i__ _____', first)).toBe('ic_ _____')
+    expect(revealLetter('ice cream', 'i__ _____', last)).toBe('i__ ____m')
+  })
+
+  it('keeps the mask counts in step with each reveal', () => {
+    let mask = maskWord('t-rex')
+    for (let shown = 1; shown < 4; shown++) {
+      mask = revealLetter('t-rex', mask, Math.random)
+      expect(letterCount(mask)).toBe(4)
+      expect(revealedCount(mask)).toBe(shown)
+    }
+  })
+
+  it('never reveals the last hidden letter', () => {
+    for (const random of [first, last, Math.random]) {
+      let mask = maskWord('house')
+      for (let i = 0; i < 10; i++) mask = revealLetter('house', mask, random)
+      expect(revealedCount(mask)).toBe(4)
+      expect(mask).not.toBe('house')
+    }
+    expect(revealLetter('a', '_', first)).toBe('_')
+    expect(revealLetter('', '', first)).toBe('')
+  })
+})
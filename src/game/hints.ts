@@ -0,0 +1,24 @@
+// Letters become underscores; spaces, hyphens and commas stay visible so
+// guessers can see the shape of multi-word answers.
+export function maskWord(word: string): string {
+  return word.replace(/[^\s,-]/g, '_')
+}
+
+const isLetterSlot = (char: string) => !/[\s,-]/.test(char)
+
+export const letterCount = (mask: string) => mask.split('').filter(isLetterSlot).length
+
+export const revealedCount = (mask: string) =>
+  mask.split('').filter(char => isLetterSlot(char) && char !== '_').length
+
+/**
+ * Uncovers one more letter of `word` at a random hidden position. At least one
+ * letter always stays hidden, so a hint can never give the whole word away;
+ * when nothing more may be shown the mask comes back unchanged.
+ */
+export function revealLetter(word: string, mask: string, random = Math.random): string {
+  const hidden = mask.split('').flatMap((char, index) => (char === '_' ? [index] : []))
+  if (hidden.length <= 1) return mask
+  const position = hidden[Math.floor(random() * hidden.length)]
+  return mask.slice(0, position) + word[position] + mask.slice(position + 1)
+}
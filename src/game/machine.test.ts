@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { createInitialState, reduce, type GameEvent, type MachineState } from './machine'
+
+const play = (state: MachineState, ...events: GameEvent[]) => events.reduce(reduce, state)
+
+// A game of `maxRounds` started by alice, bob and carol, with alice drawing "apple".
+const drawing = (maxRounds = 3, roundEndMode: MachineState['roundEndMode'] = 'all_guessed') =>
+  play(
+    createInitialState(maxRounds, roundEndMode),
+    { type: 'START_GAME', playerIds: ['alice', 'bob', 'carol'] },
+    { type: 'WORD_CHOSEN', round: 1, word: 'apple' }
+  )
+
+describe('game machine', () => {
+  it('needs two players to start', () => {
+    const lobby = createInitialState(3)
+    expect(reduce(lobby, { type: 'START_GAME', playerIds: ['alice'] })).toBe(lobby)
+    expect(reduce(lobby, { type: 'START_GAME', playerIds: ['alice', 'alice'] })).toBe(lobby)
+  })
+
+  it('starts with the first player choosing a word', () => {
+    const state = reduce(createInitialState(3), { type: 'START_GAME', playerIds: ['alice', 'bob'] })
+    expect(state).toMatchObject({ phase: 'choosing_word', round: 1, drawerId: 'alice', turnOrder: ['alice', 'bob'] })
+  })
+
+  it('starts drawing once the word is chosen', () => {
+    expect(drawing()).toMatchObject({ phase: 'drawing', word: 'apple' })
+  })
+
+  it('ends the round once everyone but the drawer has guessed', () => {
+    const halfway = reduce(drawing(), { type: 'CORRECT_GUESS', round: 1, playerId: 'bob' })
+    expect(halfway).toMatchObject({ phase: 'drawing', guessed: ['bob'] })
+    expect(reduce(halfway, { type: 'CORRECT_GUESS', round: 1, playerId: 'carol' })).toMatchObject({
+      phase: 'reveal',
+      guessed: ['bob', 'carol']
+    })
+  })
+
+  it('ends the round on the first guess when the room says so', () => {
+    expect(reduce(drawing(3, 'first_guess'), { type: 'CORRECT_GUESS', round: 1, playerId: 'bob' }).phase).toBe('reveal')
+  })
+
+  it('waits for the timer when the room says so', () => {
+    const state = play(
+      drawing(3, 'timer'),
+      { type: 'CORRECT_GUESS', round: 1, playerId: 'bob' },
+      { type: 'CORRECT_GUESS', round: 1, playerId: 'carol' }
+    )
+    expect(state.phase).toBe('drawing')
+    expect(reduce(state, { type: 'TIMER_EXPIRED', round: 1 }).phase).toBe('reveal')
+  })
+
+  it('ignores the drawer and repeat guesses', () => {
+    const once = reduce(drawing(), { type: 'CORRECT_GUESS', round: 1, playerId: 'bob' })
+    expect(reduce(once, { type: 'CORRECT_GUESS', round: 1, playerId: 'bob' })).toBe(once)
+    expect(reduce(once, { type: 'CORRECT_GUESS', round: 1, playerId: 'alice' })).toBe(once)
+  })
+
+  it('ignores events for another round', () => {
+    const state = drawing()
+    expect(reduce(state, { type: 'TIMER_EXPIRED', round: 2 })).toBe(state)
+    expect(reduce(state, { type: 'CORRECT_GUESS', round: 0, playerId: 'bob' })).toBe(state)
+  })
+
+  it('hands the next round to the next player', () => {
+    const state = play(
+      drawing(),
+      { type: 'TIMER_EXPIRED', round: 1 },
+      { type: 'REVEAL_FINISHED', round: 1 },
+      { type: 'INTERMISSION_FINISHED', round: 1 }
+    )
+    expect(state).toMatchObject({ phase: 'choosing_word', round: 2, drawerId: 'bob', word: null, guessed: [] })
+  })
+
+  it('finishes after the last round', () => {
+    const state = play(drawing(1), { type: 'TIMER_EXPIRED', round: 1 }, { type: 'REVEAL_FINISHED', round: 1 })
+    expect(state.phase).toBe('finished')
+  })
+
+  it('adds late joiners to the end of the turn order once', () => {
+    const state = play(drawing(), { type: 'PLAYER_JOINED', playerId: 'dave' }, { type: 'PLAYER_JOINED', playerId: 'dave' })
+    expect(state.turnOrder).toEqual(['alice', 'bob', 'carol', 'dave'])
+  })
+
+  it('ends the round when the drawer leaves', () => {
+    const state = reduce(drawing(), { type: 'PLAYER_LEFT', playerId: 'alice' })
+    expect(state).toMatchObject({ phase: 'reveal', turnOrder: ['bob', 'carol'] })
+  })
+
+  it('ends the round when the last guesser still searching leaves', () => {
+    const state = play(
+      drawing(),
+      { type: 'CORRECT_GUESS', round: 1, playerId: 'bob' },
+      { type: 'PLAYER_LEFT', playerId: 'carol' }
+    )
+    expect(state.phase).toBe('reveal')
+  })
+
+  it('finishes the game when too few players are left', () => {
+    const state = play(drawing(), { type: 'PLAYER_LEFT', playerId: 'bob' }, { type: 'PLAYER_LEFT', playerId: 'carol' })
+    expect(state.phase).toBe('finished')
+  })
+
+  it('resets to the lobby keeping the settings', () => {
+    expect(reduce(drawing(5, 'timer'), { type: 'RESET' })).toEqual(createInitialState(5, 'timer'))
+  })
+})
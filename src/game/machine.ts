@@ -0,0 +1,141 @@
+import type { GamePhase, RoundEndMode } from '../types/game'
+
+// Round progression as a pure reducer. Nothing here touches React, timers or
+// the network: the room authority feeds events in and persists what comes out.
+
+export interface MachineState {
+  phase: GamePhase
+  round: number
+  maxRounds: number
+  roundEndMode: RoundEndMode
+  // Player user ids in drawing order; late joiners are appended.
+  turnOrder: string[]
+  drawerId: string | null
+  word: string | null
+  // User ids in the order they guessed this round's word.
+  guessed: string[]
+}
+
+export type GameEvent =
+  | { type: 'START_GAME'; playerIds: string[] }
+  | { type: 'PLAYER_JOINED'; playerId: string }
+  | { type: 'PLAYER_LEFT'; playerId: string }
+  // `auto` when the drawer ran out of time and the word was picked for them.
+  | { type: 'WORD_CHOSEN'; round: number; word: string; auto?: boolean }
+  | { type: 'CORRECT_GUESS'; round: number; playerId: string }
+  | { type: 'TIMER_EXPIRED'; round: number }
+  | { type: 'REVEAL_FINISHED'; round: number }
+  | { type: 'INTERMISSION_FINISHED'; round: number }
+  | { type: 'RESET' }
+
+export const MIN_PLAYERS = 2
+
+export function createInitialState(maxRounds: number, roundEndMode: RoundEndMode = 'all_guessed'): MachineState {
+  return {
+    phase: 'lobby',
+    round: 0,
+    maxRounds,
+    roundEndMode,
+    turnOrder: [],
+    drawerId: null,
+    word: null,
+    guessed: []
+  }
+}
+
+export const isInGame = (phase: GamePhase) => phase !== 'lobby' && phase !== 'finished'
+
+function nextDrawer(state: MachineState): string | null {
+  if (state.turnOrder.length === 0) return null
+  const index = state.drawerId ? state.turnOrder.indexOf(state.drawerId) : -1
+  return state.turnOrder[(index + 1) % state.turnOrder.length]
+}
+
+function beginRound(state: MachineState, round: number, drawerId: string | null): MachineState {
+  return { ...state, phase: 'choosing_word', round, drawerId, word: null, guessed: [] }
+}
+
+function endRound(state: MachineState): MachineState {
+  return { ...state, phase: 'reveal' }
+}
+
+// Everyone in the game apart from the drawer has found the word.
+const allGuessed = (state: MachineState) =>
+  state.turnOrder.every(id => id === state.drawerId || state.guessed.includes(id))
+
+// Whether the guesses so far close the round, per the room's setting.
+function guessesEndRound(state: MachineState): boolean {
+  switch (state.roundEndMode) {
+    case 'first_guess':
+      return state.guessed.length > 0
+    case 'all_guessed':
+      return allGuessed(state)
+    case 'timer':
+      return false
+  }
+}
+
+/**
+ * Applies one event. Events that don't make sense in the current phase, or
+ * that refer to a round other than the current one, return the state
+ * unchanged, so a duplicated or late event can never advance the game twice.
+ */
+export function reduce(state: MachineState, event: GameEvent): MachineState {
+  const isCurrentRound = 'round' in event && event.round === state.round
+
+  switch (event.type) {
+    case 'START_GAME': {
+      if (state.phase !== 'lobby' && state.phase !== 'finished') return state
+      const turnOrder = [...new Set(event.playerIds)]
+      if (turnOrder.length < MIN_PLAYERS) return state
+      return beginRound({ ...state, turnOrder, drawerId: null }, 1, turnOrder[0])
+    }
+
+    case 'PLAYER_JOINED':
+      if (state.turnOrder.includes(event.playerId)) return state
+      return { ...state, turnOrder: [...state.turnOrder, event.playerId] }
+
+    case 'PLAYER_LEFT': {
+      if (!state.turnOrder.includes(event.playerId)) return state
+      const turnOrder = state.turnOrder.filter(id => id !== event.playerId)
+      const next = { ...state, turnOrder, guessed: state.guessed.filter(id => id !== event.playerId) }
+      if (!isInGame(state.phase)) return next
+      if (turnOrder.length < MIN_PLAYERS) return { ...next, phase: 'finished' }
+      const drawerLeft = state.drawerId === event.playerId
+      if (drawerLeft && (state.phase === 'choosing_word' || state.phase === 'drawing')) {
+        return endRound(next)
+      }
+      // The last guesser still searching may be the one who left.
+      if (state.phase === 'drawing' && guessesEndRound(next)) return endRound(next)
+      return next
+    }
+
+    case 'WORD_CHOSEN':
+      if (state.phase !== 'choosing_word' || !isCurrentRound) return state
+      return { ...state, phase: 'drawing', word: event.word }
+
+    case 'CORRECT_GUESS': {
+      if (state.phase !== 'drawing' || !isCurrentRound) return state
+      if (event.playerId === state.drawerId || state.guessed.includes(event.playerId)) return state
+      const next = { ...state, guessed: [...state.guessed, event.playerId] }
+      return guessesEndRound(next) ? endRound(next) : next
+    }
+
+    case 'TIMER_EXPIRED':
+      if (state.phase !== 'drawing' || !isCurrentRound) return state
+      return endRound(state)
+
+    case 'REVEAL_FINISHED':
+      if (state.phase !== 'reveal' || !isCurrentRound) return state
+      return state.round >= state.maxRounds
+        ? { ...state, phase: 'finished' }
+        : { ...state, phase: 'intermission' }
+
+    case 'INTERMISSION_FINISHED':
+      if (state.phase !== 'intermission' || !isCurrentRound) return state
+      return beginRound(state, state.round + 1, nextDrawer(state))
+
+    case 'RESET':
+      return createInitialState(state.maxRounds, state.roundEndMode)
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import type { GameRealtime, RealtimeMessage } from '../backend/types'
+import { createSealingKeys, exportSealingKey, seal } from '../lib/sealing'
+import { listenPrivately, receiveLocally, replyKey } from './private-messages'
+import { playerChannel, SEALED_MESSAGE } from './protocol'
+
+// Delivers every publish to the channel's subscribers, and remembers it.
+function createBus() {
+  const subscribers = new Map<string, Set<(message: RealtimeMessage) => void>>()
+  const published: string[] = []
+  const realtime: GameRealtime = {
+    async subscribe(channel, callback) {
+      if (!subscribers.has(channel)) subscribers.set(channel, new Set())
+      subscribers.get(channel)!.add(callback)
+      return () => subscribers.get(channel)?.delete(callback)
+    },
+    async publish(channel, type, data) {
+      published.push(JSON.stringify(data))
+      subscribers.get(channel)?.forEach(callback => callback({ id: channel, type, data, timestamp: 0, userId: 'authority' }))
+    }
+  }
+  return { realtime, published }
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50))
+
+describe('private messages', () => {
+  it('opens messages sealed for this page\'s reply key', async () => {
+    const { realtime, published } = createBus()
+    const received: unknown[] = []
+    const stop = listenPrivately(realtime, 'R', 'bob', (type, data) => received.push([type, data]))
+    await settle()
+
+    const sealed = await seal(await replyKey(), { type: 'guess_result', data: { text: 'zebr' } })
+    await realtime.publish(playerChannel('R', 'bob'), SEALED_MESSAGE, { sealed })
+    await settle()
+
+    expect(received).toEqual([['guess_result', { text: 'zebr' }]])
+    expect(published.join()).not.toContain('zebr')
+    stop()
+  })
+
+  it('drops sealed messages it can\'t open', async () => {
+    const { realtime } = createBus()
+    const received: unknown[] = []
+    const stop = listenPrivately(realtime, 'R', 'bob', (type) => received.push(type))
+    await settle()
+
+    const other = await createSealingKeys()
+    const sealed = await seal(await exportSealingKey(other.publicKey), { type: 'guess_result', data: {} })
+    await realtime.publish(playerChannel('R', 'bob'), SEALED_MESSAGE, { sealed })
+    await settle()
+
+    expect(received).toEqual([])
+    stop()
+  })
+
+  it('passes on messages in the clear and from the authority in this tab', async () => {
+    const { realtime } = createBus()
+    const received: string[] = []
+    const stop = listenPrivately(realtime, 'R', 'bob', (type) => received.push(type))
+    await settle()
+
+    await realtime.publish(playerChannel('R', 'bob'), 'words_running_out', {})
+    receiveLocally('R', 'bob', 'secret_word', {})
+    receiveLocally('R', 'carol', 'secret_word', {})
+    stop()
+    receiveLocally('R', 'bob', 'secret_word', {})
+
+    expect(received).toEqual(['words_running_out', 'secret_word'])
+  })
+})
@@ -0,0 +1,57 @@
+import type { GameRealtime } from '../backend/types'
+import { createSealingKeys, exportSealingKey, unseal } from '../lib/sealing'
+import { playerChannel, SEALED_MESSAGE, type PrivateMessage, type SealedMessagePayload } from './protocol'
+
+// Private messages from the room authority reach a player one of three ways:
+// - straight from the authority, when it runs in the player's own tab;
+// - sealed on the player's channel, for the reply key their guesses carry;
+// - in the clear on the player's channel, when the backend runs the
+//   authority and keeps that channel to the player.
+// Whichever way they come, listeners here get them as a type and data.
+
+type PrivateListener = (type: string, data: any) => void
+
+// One reply key pair per page, made on first use. Its private half never
+// leaves this tab.
+let replyKeys: Promise<CryptoKeyPair> | null = null
+const ownReplyKeys = () => (replyKeys ??= createSealingKeys())
+
+export const replyKey = async () => exportSealingKey((await ownReplyKeys()).publicKey)
+
+const localListeners = new Map<string, Set<PrivateListener>>()
+
+// Used by the authority running in this tab for messages to its own player,
+// which are never published at all.
+export function receiveLocally(roomId: string, userId: string, type: string, data: any) {
+  localListeners.get(playerChannel(roomId, userId))?.forEach(listener => listener(type, data))
+}
+
+export function listenPrivately(realtime: GameRealtime, roomId: string, userId: string, listener: PrivateListener) {
+  const channel = playerChannel(roomId, userId)
+  if (!localListeners.has(channel)) localListeners.set(channel, new Set())
+  localListeners.get(channel)!.add(listener)
+
+  let unsubscribe: (() => void) | null = null
+  let cancelled = false
+  realtime.subscribe(channel, async (message) => {
+    if (message.type !== SEALED_MESSAGE) {
+      listener(message.type, message.data)
+      return
+    }
+    // Ones sealed for another of the player's tabs don't open here and are dropped.
+    const { sealed } = message.data as SealedMessagePayload
+    const opened = await ownReplyKeys()
+      .then(keys => unseal<PrivateMessage>(keys.privateKey, sealed))
+      .catch(() => null)
+    if (opened) listener(opened.type, opened.data)
+  }).then((off) => {
+    if (cancelled) off()
+    else unsubscribe = off
+  })
+
+  return () => {
+    cancelled = true
+    unsubscribe?.()
+    localListeners.get(channel)?.delete(listener)
+  }
+}
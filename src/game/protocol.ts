@@ -0,0 +1,133 @@
+import type { GameRealtime } from '../backend/types'
+import type { DrawingStroke, GameMessage } from '../types/game'
+import { seal, type Sealed } from '../lib/sealing'
+import type { WordReuse } from './word-packs'
+
+// Channel names and the messages clients send to the room authority. The
+// authority answers on the shared channels with room_update, round_end and
+// correct_guess, and on each player's own channel with anything private.
+// Unless the backend keeps player channels to their player, private messages
+// there go sealed (see ./private-messages).
+
+export const roomChannel = (roomId: string) => `room_${roomId}`
+export const chatChannel = (roomId: string) => `chat_${roomId}`
+export const drawingChannel = (roomId: string) => `drawing_${roomId}`
+// Only the authority acts on what arrives here. Unless the backend runs the
+// authority and keeps this channel to itself, anyone may listen in, so guesses
+// are sealed for the room's guessKey.
+export const authorityChannel = (roomId: string) => `authority_${roomId}`
+export const playerChannel = (roomId: string, userId: string) => `player_${roomId}_${userId}`
+
+export const GAME_EVENT = 'game_event'
+
+export type GameIntent =
+  | { type: 'start_game' }
+  // Anything typed into the chat while a game is on. Whether it is a guess,
+  // guessed-only chat or ordinary chat is up to the authority.
+  | { type: 'guess'; round: number; text: string; displayName: string }
+  // The same, sealed for the room's guessKey. It opens to a GuessContent.
+  | { type: 'sealed_guess'; round: number; sealed: Sealed }
+  | { type: 'choose_word'; round: number; word: string }
+  // A drawer who reloaded asks again for their word, or their choices if
+  // they haven't picked one yet.
+  | { type: 'request_word'; round: number }
+  // The host changing where words come from, before the game starts.
+  | { type: 'update_words'; categoryIds: string[]; customWordShare: number }
+
+export interface GuessContent {
+  text: string
+  displayName: string
+  // The sender's reply key as a JWK, which the authority seals its private
+  // answers for. Only sent along with sealed guesses.
+  replyKey?: JsonWebKey
+}
+
+// Who sent an intent is never part of it: the authority goes by the
+// RealtimeMessage's userId, which the backend fills in.
+export interface GameEventPayload {
+  intent: GameIntent
+}
+
+// Private messages from the authority to a single player.
+export interface SecretWordPayload {
+  round: number
+  word: string
+}
+
+export interface WordChoicesPayload {
+  round: number
+  choices: string[]
+}
+
+export interface GuessResultPayload {
+  round: number
+  correct: boolean
+  // Within a typo or two of the word. Such guesses are kept out of the chat,
+  // so `text` echoes the guess back to the one player who made it.
+  close: boolean
+  text?: string
+  points: number
+}
+
+// Sent to the host when the words offered this round include some that were
+// held back, because the room is running out of fresh ones.
+export interface WordsRunningOutPayload {
+  round: number
+  reused: WordReuse
+}
+
+// Chat between the drawer and those who have guessed, relayed to each of them
+// while the round is on. It reaches the shared chat once the round is over.
+export interface GuessedMessagePayload {
+  round: number
+  message: GameMessage
+}
+
+// A private message sealed for the player's reply key. It opens to a
+// PrivateMessage, i.e. one of the payloads above with its type.
+export const SEALED_MESSAGE = 'sealed_message'
+
+export interface SealedMessagePayload {
+  sealed: Sealed
+}
+
+export interface PrivateMessage {
+  type: string
+  data: any
+}
+
+// Drawing channel messages. A stroke is streamed as `stroke_points` batches
+// while it is drawn, then saved once and announced with `new_stroke`. Both
+// carry strokes encoded with ./stroke-codec.
+export interface StrokePointsPayload {
+  strokeId: string
+  roundNumber: number
+  // Counts batches from 0, so watchers who missed one wait for the saved stroke.
+  seq: number
+  // The stroke's style and this batch's points, in the stroke codec.
+  data: string
+}
+
+export interface NewStrokePayload {
+  roundNumber: number
+  stroke: DrawingStroke
+}
+
+export interface StrokeUndonePayload {
+  roundNumber: number
+  strokeId: string
+}
+
+export function sendGameEvent(realtime: GameRealtime, roomId: string, intent: GameIntent) {
+  const payload: GameEventPayload = { intent }
+  return realtime.publish(authorityChannel(roomId), GAME_EVENT, payload)
+}
+
+// Seals the guess when given the room's guess key, and sends it as it is
+// otherwise.
+export async function sendGuess(realtime: GameRealtime, roomId: string, round: number, guess: GuessContent, guessKey: string | null) {
+  const intent: GameIntent = guessKey
+    ? { type: 'sealed_guess', round, sealed: await seal(JSON.parse(guessKey), guess) }
+    : { type: 'guess', round, ...guess }
+  return sendGameEvent(realtime, roomId, intent)
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { SCORING_PRESETS, scoreDrawer, scoreGuess, teamTotals, withDefaultRules } from './scoring'
+
+const classic = SCORING_PRESETS.classic
+
+// A guess by bob in a 60 second round.
+const guess = (secondsLeft: number, order: number) =>
+  scoreGuess(classic, { userId: 'bob', team: null, secondsLeft, roundTime: 60, order })
+
+describe('scoring', () => {
+  it('pays the first guessers an order bonus, then nothing', () => {
+    expect([0, 1, 2, 3].map(order => guess(0, order).points)).toEqual([130, 120, 110, 100])
+    expect(guess(0, 0).parts.map(part => part.label)).toEqual(['Correct guess', '1st to guess'])
+    expect(guess(0, 3).parts.map(part => part.label)).toEqual(['Correct guess'])
+  })
+
+  it('decays the speed bonus with the time left', () => {
+    expect(guess(60, 3).points).toBe(150)
+    expect(guess(30, 3).points).toBe(125)
+    expect(guess(0, 3).points).toBe(100)
+  })
+
+  it('keeps the speed bonus within the round', () => {
+    expect(guess(90, 3).points).toBe(150)
+    expect(guess(-5, 3).points).toBe(100)
+    expect(scoreGuess(classic, { userId: 'bob', team: null, secondsLeft: 10, roundTime: 0, order: 3 }).points).toBe(100)
+  })
+
+  it('pays the drawer per guesser, with a bonus when everyone got it', () => {
+    const guessers = [{ userId: 'bob', team: null }, { userId: 'carol', team: null }]
+    const some = scoreDrawer(classic, { userId: 'alice', team: null, teamMode: false, guessers: guessers.slice(0, 1), possibleGuessers: 2 })
+    const all = scoreDrawer(classic, { userId: 'alice', team: null, teamMode: false, guessers, possibleGuessers: 2 })
+    expect(some).toMatchObject({ role: 'drawer', points: 25 })
+    expect(all.points).toBe(100)
+  })
+
+  it('pays the drawer nothing when nobody guessed', () => {
+    const line = scoreDrawer(classic, { userId: 'alice', team: null, teamMode: false, guessers: [], possibleGuessers: 0 })
+    expect(line).toMatchObject({ points: 0, parts: [] })
+  })
+
+  it('only counts the drawer\'s own team when the rules say so', () => {
+    const guessers = [{ userId: 'bob', team: 'red' as const }, { userId: 'carol', team: 'blue' as const }]
+    const context = { userId: 'alice', team: 'red' as const, teamMode: true, guessers, possibleGuessers: 2 }
+    expect(scoreDrawer(classic, context).points).toBe(25 + 50)
+    expect(scoreDrawer(SCORING_PRESETS.flat, context).points).toBe(100)
+  })
+
+  it('adds up each team', () => {
+    const lines = [guess(0, 0), { ...guess(0, 1), team: 'red' as const }, { ...guess(0, 2), team: 'blue' as const }]
+    expect(teamTotals(lines)).toEqual({ red: 120, blue: 110 })
+  })
+
+  it('fills in missing rules from the defaults', () => {
+    expect(withDefaultRules({ guessBase: 10 })).toEqual({ ...classic, guessBase: 10 })
+    expect(withDefaultRules(null)).toEqual(classic)
+  })
+})
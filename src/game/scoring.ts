@@ -0,0 +1,96 @@
+import type { ScoreLine, ScoringRules, Team } from '../types/game'
+
+export type ScoringPreset = 'classic' | 'speed' | 'flat'
+
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringRules> = {
+  classic: {
+    guessBase: 100,
+    timeBonus: 50,
+    orderBonus: [30, 20, 10],
+    drawerPerGuess: 25,
+    drawerAllGuessedBonus: 50,
+    drawerTeamOnly: true
+  },
+  // Most of a guess's worth comes from how fast it was.
+  speed: {
+    guessBase: 50,
+    timeBonus: 150,
+    orderBonus: [50, 25],
+    drawerPerGuess: 20,
+    drawerAllGuessedBonus: 0,
+    drawerTeamOnly: true
+  },
+  // Every correct guess is worth the same.
+  flat: {
+    guessBase: 100,
+    timeBonus: 0,
+    orderBonus: [],
+    drawerPerGuess: 50,
+    drawerAllGuessedBonus: 0,
+    drawerTeamOnly: false
+  }
+}
+
+export const DEFAULT_SCORING = SCORING_PRESETS.classic
+
+// Rooms from before per-room rules, or with only some rules set, fall back to
+// the defaults for whatever is missing.
+export function withDefaultRules(rules: Partial<ScoringRules> | null | undefined): ScoringRules {
+  return { ...DEFAULT_SCORING, ...rules }
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'
+  return `${n}${suffix}`
+}
+
+function toLine(userId: string, role: ScoreLine['role'], team: Team | null, parts: ScoreLine['parts']): ScoreLine {
+  const kept = parts.filter(part => part.points > 0)
+  return { userId, role, team, points: kept.reduce((sum, part) => sum + part.points, 0), parts: kept }
+}
+
+interface GuessContext {
+  userId: string
+  team: Team | null
+  secondsLeft: number
+  roundTime: number
+  // 0 for the first correct guesser of the round.
+  order: number
+}
+
+export function scoreGuess(rules: ScoringRules, { userId, team, secondsLeft, roundTime, order }: GuessContext): ScoreLine {
+  const timeRatio = roundTime > 0 ? Math.min(1, Math.max(0, secondsLeft / roundTime)) : 0
+  return toLine(userId, 'guesser', team, [
+    { label: 'Correct guess', points: rules.guessBase },
+    { label: 'Speed', points: Math.round(rules.timeBonus * timeRatio) },
+    { label: `${ordinal(order + 1)} to guess`, points: rules.orderBonus[order] ?? 0 }
+  ])
+}
+
+interface DrawerContext {
+  userId: string
+  team: Team | null
+  teamMode: boolean
+  guessers: { userId: string; team: Team | null }[]
+  // Everyone who could have guessed, i.e. all players but the drawer.
+  possibleGuessers: number
+}
+
+export function scoreDrawer(rules: ScoringRules, { userId, team, teamMode, guessers, possibleGuessers }: DrawerContext): ScoreLine {
+  const counted = teamMode && rules.drawerTeamOnly && team
+    ? guessers.filter(guesser => guesser.team === team)
+    : guessers
+  const everyoneGuessed = possibleGuessers > 0 && guessers.length >= possibleGuessers
+  return toLine(userId, 'drawer', team, [
+    { label: `${counted.length} guessed the drawing`, points: counted.length * rules.drawerPerGuess },
+    { label: 'Everyone guessed', points: everyoneGuessed ? rules.drawerAllGuessedBonus : 0 }
+  ])
+}
+
+export function teamTotals(lines: ScoreLine[]): Record<Team, number> {
+  const totals: Record<Team, number> = { red: 0, blue: 0 }
+  for (const line of lines) {
+    if (line.team) totals[line.team] += line.points
+  }
+  return totals
+}
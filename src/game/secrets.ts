@@ -0,0 +1,70 @@
+import type { WordEntry } from '../types/game'
+
+// Where the room authority keeps each round's word. It is never written to a
+// table clients can read while the round is running.
+export interface RoundSecrets {
+  load(roomId: string, round: number): string | null
+  save(roomId: string, round: number, word: string): void
+  // The words the drawer was offered, with their aliases; just as secret as
+  // the one they pick.
+  loadChoices(roomId: string, round: number): WordEntry[]
+  saveChoices(roomId: string, round: number, choices: WordEntry[]): void
+}
+
+const key = (roomId: string, round: number) => `${roomId}:${round}`
+const choicesKey = (roomId: string, round: number) => `${key(roomId, round)}:choices`
+
+const parseChoices = (value: string | null | undefined): WordEntry[] => {
+  try {
+    const parsed = JSON.parse(value ?? '[]')
+    return Array.isArray(parsed)
+      ? parsed.map((entry: any) => ({ word: String(entry.word), aliases: (entry.aliases ?? []).map(String) }))
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function createMemorySecrets(): RoundSecrets {
+  const words = new Map<string, string>()
+  return {
+    load: (roomId, round) => words.get(key(roomId, round)) ?? null,
+    save: (roomId, round, word) => {
+      words.set(key(roomId, round), word)
+    },
+    loadChoices: (roomId, round) => parseChoices(words.get(choicesKey(roomId, round))),
+    saveChoices: (roomId, round, choices) => {
+      words.set(choicesKey(roomId, round), JSON.stringify(choices))
+    }
+  }
+}
+
+// Browser authority: kept for the tab only, so it survives a reload of the
+// drawer's tab but never reaches another.
+export function createLocalSecrets(storageKey = 'skribbl-round-secrets'): RoundSecrets {
+  const read = (): Record<string, string> => {
+    try {
+      return JSON.parse(sessionStorage.getItem(storageKey) ?? '{}')
+    } catch {
+      return {}
+    }
+  }
+
+  const write = (roomId: string, entryKey: string, value: string) => {
+    // Only the room being run is kept, so old games don't pile up.
+    const current = Object.entries(read()).filter(([k]) => k.startsWith(`${roomId}:`))
+    const words = { ...Object.fromEntries(current), [entryKey]: value }
+    try {
+      sessionStorage.setItem(storageKey, JSON.stringify(words))
+    } catch {
+      // Storage full or unavailable: the word only lives in memory.
+    }
+  }
+
+  return {
+    load: (roomId, round) => read()[key(roomId, round)] ?? null,
+    save: (roomId, round, word) => write(roomId, key(roomId, round), word),
+    loadChoices: (roomId, round) => parseChoices(read()[choicesKey(roomId, round)]),
+    saveChoices: (roomId, round, choices) => write(roomId, choicesKey(roomId, round), JSON.stringify(choices))
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { CanvasOperation, StrokeData } from '../types/game'
+import { decodeStroke, encodeStroke, STROKE_CODEC_VERSION } from './stroke-codec'
+
+const stroke = (overrides: Partial<StrokeData> = {}): StrokeData => ({
+  kind: 'stroke',
+  color: '#1e88e5',
+  size: 5,
+  isEraser: false,
+  points: [{ x: 10, y: 20 }, { x: 30, y: 45 }],
+  ...overrides
+})
+
+const roundTrip = (operation: CanvasOperation) => decodeStroke(encodeStroke(operation))
+
+// Builds base64 stroke data by hand, for formats this encoder no longer writes.
+const rawStroke = (bytes: number[]) => btoa(String.fromCharCode(...bytes))
+
+describe('stroke codec', () => {
+  it('round-trips a plain stroke', () => {
+    expect(roundTrip(stroke())).toEqual(stroke())
+  })
+
+  it('writes the current version first', () => {
+    expect(atob(encodeStroke(stroke())).charCodeAt(0)).toBe(STROKE_CODEC_VERSION)
+  })
+
+  it('keeps coordinates and sizes to half a pixel', () => {
+    const decoded = roundTrip(stroke({ size: 2.7, points: [{ x: 10.2, y: 0.8 }, { x: 10.3, y: 1.26 }] }))
+    expect(decoded).toEqual(stroke({ size: 2.5, points: [{ x: 10, y: 1 }, { x: 10.5, y: 1.5 }] }))
+  })
+
+  it('handles points moving up and left', () => {
+    const points = [{ x: 700, y: 500 }, { x: 12, y: 3 }, { x: 0, y: 0 }, { x: 799.5, y: 599.5 }]
+    expect(roundTrip(stroke({ points }))).toEqual(stroke({ points }))
+  })
+
+  it('keeps pressure to a 255th', () => {
+    const decoded = roundTrip(stroke({ points: [{ x: 1, y: 1, pressure: 0 }, { x: 2, y: 2, pressure: 0.3 }] }))
+    if (decoded.kind !== 'stroke') throw new Error('Expected a stroke')
+    expect(decoded.points[0].pressure).toBe(0)
+    expect(decoded.points[1].pressure).toBeCloseTo(0.3, 2)
+  })
+
+  it('keeps the eraser flag', () => {
+    expect(roundTrip(stroke({ isEraser: true, color: '#ffffff' }))).toEqual(stroke({ isEraser: true, color: '#ffffff' }))
+  })
+
+  it('keeps colors that are not hex as text', () => {
+    for (const color of ['red', 'rgb(10, 20, 30)', '#abc', 'hsl(120 50% 50%)']) {
+      expect(roundTrip(stroke({ color }))).toEqual(stroke({ color }))
+    }
+  })
+
+  it('keeps color alpha', () => {
+    expect(roundTrip(stroke({ color: '#1e88e580' }))).toEqual(stroke({ color: '#1e88e580' }))
+  })
+
+  it('round-trips fills and shapes', () => {
+    const fill: CanvasOperation = { kind: 'fill', color: '#43a047', x: 120, y: 80, tolerance: 48 }
+    const shape: CanvasOperation = {
+      kind: 'shape',
+      shape: 'rectangle',
+      color: '#000000',
+      size: 3,
+      from: { x: 400, y: 300 },
+      to: { x: 10.5, y: 20 },
+      filled: true
+    }
+    expect(roundTrip(fill)).toEqual(fill)
+    expect(roundTrip(shape)).toEqual(shape)
+  })
+
+  it('reads legacy JSON rows', () => {
+    const legacy = JSON.stringify({ color: '#ff0000', size: 8, isEraser: false, points: [{ x: 1.25, y: 2 }] })
+    expect(decodeStroke(legacy)).toEqual(stroke({ color: '#ff0000', size: 8, points: [{ x: 1.25, y: 2 }] }))
+  })
+
+  it('fills in what legacy JSON rows left out', () => {
+    expect(decodeStroke('{"isEraser":true}')).toEqual(stroke({ color: '#000000', isEraser: true, points: [] }))
+  })
+
+  it('reads version 1 strokes', () => {
+    // Black, size 5, one point at (1, 2)
+    expect(decodeStroke(rawStroke([1, 0, 0, 0, 0, 10, 1, 4, 8]))).toEqual(
+      stroke({ color: '#000000', points: [{ x: 1, y: 2 }] })
+    )
+  })
+
+  it('rejects flags a version did not have', () => {
+    // A fill marked as version 1
+    expect(() => decodeStroke(rawStroke([1, 8, 0, 0, 0, 0, 1, 1]))).toThrow(/flags/)
+  })
+
+  it('rejects unknown versions', () => {
+    expect(() => decodeStroke(rawStroke([STROKE_CODEC_VERSION + 1, 0, 0, 0, 0, 10, 0]))).toThrow(/version/)
+    expect(() => decodeStroke(rawStroke([0, 0, 0, 0, 0, 10, 0]))).toThrow(/version/)
+  })
+
+  it('rejects data that ends early', () => {
+    const encoded = atob(encodeStroke(stroke()))
+    expect(() => decodeStroke(btoa(encoded.slice(0, -1)))).toThrow(/ends early/)
+  })
+})
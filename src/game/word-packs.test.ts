@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryDatabase } from '../backend/memory'
+import { createRepository } from '../data/repository'
+import type { GameRoom } from '../types/game'
+import {
+  DEFAULT_WORD_PACKS,
+  dedupeWords,
+  exportWordPacks,
+  formatForFileName,
+  importWordPacks,
+  mergePacks,
+  pickWordChoices,
+  seedDefaultWordPacks,
+  type WordPack
+} from './word-packs'
+import { parseWordList } from './words'
+
+const fallback: WordPack = { name: 'Imported', difficulty: 'medium', words: [] }
+const food: WordPack = { name: 'Food', difficulty: 'easy', words: parseWordList('pizza, ice cream | icecream, taco') }
+
+describe('word packs', () => {
+  it('reads the format from the file name', () => {
+    expect(['a.json', 'B.CSV', 'c.txt', 'words'].map(formatForFileName)).toEqual(['json', 'csv', 'text', 'text'])
+  })
+
+  it('exports and imports every format without losing words', () => {
+    const withComma = { ...food, words: [...food.words, { word: 'salt, pepper', aliases: ['s&p'] }] }
+    for (const format of ['json', 'csv'] as const) {
+      expect(importWordPacks(exportWordPacks([withComma], format), format, fallback)).toEqual([withComma])
+    }
+    expect(importWordPacks(exportWordPacks([withComma], 'text'), 'text', fallback)).toEqual([{ ...fallback, words: withComma.words }])
+  })
+
+  it('reads CSV with a header, without one, and as a single column', () => {
+    const withHeader = 'word,difficulty,category\ncat,easy,Animals\ndog,easy,Animals'
+    expect(importWordPacks(withHeader, 'csv', fallback)).toEqual([
+      { name: 'Animals', difficulty: 'easy', words: parseWordList('cat, dog') }
+    ])
+    expect(importWordPacks('Animals,hard,narwhal,unicorn whale', 'csv', fallback)).toEqual([
+      { name: 'Animals', difficulty: 'hard', words: [{ word: 'narwhal', aliases: ['unicorn whale'] }] }
+    ])
+    expect(importWordPacks('cat\ndog', 'csv', fallback)).toEqual([{ ...fallback, words: parseWordList('cat, dog') }])
+  })
+
+  it('reads JSON words as strings, objects or one comma-separated string', () => {
+    const json = JSON.stringify([
+      { name: 'A', difficulty: 'hard', words: ['cat | kitty', { word: 'dog', aliases: ['puppy'] }] },
+      { name: 'B', words: 'sun, moon' }
+    ])
+    expect(importWordPacks(json, 'json', fallback)).toEqual([
+      { name: 'A', difficulty: 'hard', words: parseWordList('cat | kitty, dog | puppy') },
+      { name: 'B', difficulty: 'medium', words: parseWordList('sun, moon') }
+    ])
+    expect(() => importWordPacks('{', 'json', fallback)).toThrow()
+  })
+
+  it('keeps commas in an entry instead of splitting or dropping them', () => {
+    const csv = 'pack,difficulty,word,aliases\nFood,easy,"salt, pepper",\nFood,easy,soup,'
+    expect(importWordPacks(csv, 'csv', fallback)).toEqual([
+      { name: 'Food', difficulty: 'easy', words: [{ word: 'salt, pepper', aliases: [] }, { word: 'soup', aliases: [] }] }
+    ])
+    const json = JSON.stringify({ packs: [{ name: 'Food', words: ['salt, pepper', { word: 'fish, chips' }] }] })
+    expect(importWordPacks(json, 'json', fallback)[0].words.map(entry => entry.word)).toEqual(['salt, pepper', 'fish, chips'])
+    expect(importWordPacks('"salt, pepper"\nsoup', 'text', fallback)[0].words.map(entry => entry.word)).toEqual(['salt, pepper', 'soup'])
+  })
+
+  it('merges packs with the same name and difficulty', () => {
+    const more = { ...food, name: ' food ', words: parseWordList('taco, sushi') }
+    expect(mergePacks([food, more, { ...food, difficulty: 'hard' }])).toEqual([
+      { ...food, words: [...food.words, ...parseWordList('sushi')] },
+      { ...food, difficulty: 'hard' }
+    ])
+    expect(dedupeWords(parseWordList('cat\ndog').concat(parseWordList('cat | kitty')))).toMatchObject({ removed: 1 })
+  })
+
+  it('seeds the default packs once, and never again once deleted', async () => {
+    const repo = createRepository(createMemoryDatabase())
+    expect(await seedDefaultWordPacks(repo)).toBe(true)
+    expect(await repo.wordCategories.list()).toHaveLength(DEFAULT_WORD_PACKS.length)
+
+    for (const category of await repo.wordCategories.list()) await repo.wordCategories.delete(category.id)
+    expect(await seedDefaultWordPacks(repo)).toBe(false)
+    expect(await repo.wordCategories.list()).toEqual([])
+  })
+
+  it('leaves packs from before seeding was recorded alone', async () => {
+    const repo = createRepository(createMemoryDatabase())
+    await repo.wordCategories.create({ id: 'mine', ...food })
+    expect(await seedDefaultWordPacks(repo)).toBe(false)
+    for (const category of await repo.wordCategories.list()) await repo.wordCategories.delete(category.id)
+    expect(await seedDefaultWordPacks(repo)).toBe(false)
+  })
+
+  it('picks words without seeding, falling back to the built-in packs', async () => {
+    const repo = createRepository(createMemoryDatabase())
+    const room = { id: 'R', difficulty: 'easy', categoryIds: [], customWords: null, customWordShare: 0 } as unknown as GameRoom
+    const { choices } = await pickWordChoices(repo, room, 3)
+    expect(choices).toHaveLength(3)
+    expect(await repo.wordCategories.list()).toEqual([])
+  })
+})
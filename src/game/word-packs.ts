@@ -0,0 +1,325 @@
+import type { Repository } from '../data/repository'
+import type { Difficulty, GameRoom, WordCategory, WordEntry } from '../types/game'
+import { formatWordEntry, formatWordList, parseWordEntry, parseWordList } from './words'
+
+// A word category without its row id, as it travels in and out of files.
+export type WordPack = Omit<WordCategory, 'id'>
+
+export type WordPackFormat = 'json' | 'csv' | 'text'
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard']
+
+const pack = (name: string, difficulty: Difficulty, words: string): WordPack => ({
+  name,
+  difficulty,
+  words: parseWordList(words)
+})
+
+// Written to an empty wordCategories table, so a fresh install has words to play with.
+export const DEFAULT_WORD_PACKS: WordPack[] = [
+  pack('Animals', 'easy', 'cat, dog, fish, bird, cow, pig, duck, frog, bee, lion, horse, snake, mouse, sheep, owl'),
+  pack('Things', 'easy', 'ball, book, cup, hat, key, sun, tree, car, house, chair, shoe, apple, moon, star, clock'),
+  pack('Animals', 'medium', 'elephant, giraffe, penguin, octopus, kangaroo, dolphin, squirrel, turtle, camel, zebra, peacock, hedgehog'),
+  pack('Food & Drink', 'medium', 'sushi, pizza, hamburger | burger, ice cream | icecream, pancake, sandwich, popcorn, spaghetti, cupcake, lemonade, taco, donut | doughnut'),
+  pack('Things', 'medium', 'guitar, umbrella, backpack, telescope, ladder, candle, scissors, lighthouse, rocket, snowman, volcano, bicycle | bike'),
+  pack('Animals', 'hard', 'chameleon, platypus, armadillo, flamingo, narwhal, porcupine, jellyfish, scorpion, seahorse, pelican'),
+  pack('Food & Drink', 'hard', 'tiramisu, croissant, guacamole, lasagna | lasagne, pretzel, dumpling, smoothie, fondue, burrito, macaron'),
+  pack('Ideas', 'hard', 'kaleidoscope, gravity, nightmare, echo, time travel, camouflage, democracy, hibernation, evolution, rush hour')
+]
+
+const packId = (wordPack: WordPack) =>
+  `words_${wordPack.difficulty}_${wordPack.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`
+
+const SEEDED_FLAG = 'default_word_packs_seeded'
+
+/**
+ * Seeds the default packs into an empty wordCategories table, once ever: after
+ * that, packs the players deleted stay deleted. Ids are fixed, so two clients
+ * seeding at once end up with one copy. Returns whether it seeded.
+ */
+export async function seedDefaultWordPacks(repo: Repository): Promise<boolean> {
+  if (await repo.flags.has(SEEDED_FLAG)) return false
+  // Tables filled before the flag existed are left as they are.
+  const seeding = (await repo.wordCategories.list()).length === 0
+  if (seeding) {
+    for (const wordPack of DEFAULT_WORD_PACKS) {
+      // Someone else got there first.
+      await repo.wordCategories.create({ id: packId(wordPack), ...wordPack }).catch(() => {})
+    }
+  }
+  await repo.flags.set(SEEDED_FLAG)
+  return seeding
+}
+
+const defaultWordsFor = (difficulty: Difficulty): WordEntry[] =>
+  DEFAULT_WORD_PACKS.filter(wordPack => wordPack.difficulty === difficulty).flatMap(wordPack => wordPack.words)
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const swap = shuffled[i]
+    shuffled[i] = shuffled[j]
+    shuffled[j] = swap
+  }
+  return shuffled
+}
+
+// The room's picked categories, or every word of its difficulty. A word that
+// has earned a difficulty in play counts as that, whatever its pack says.
+async function categoryWords(repo: Repository, room: GameRoom, earned: Map<string, Difficulty>): Promise<WordEntry[]> {
+  const categories = await repo.wordCategories.list()
+  if (room.categoryIds.length > 0) {
+    return categories.filter(category => room.categoryIds.includes(category.id)).flatMap(category => category.words)
+  }
+  return categories.flatMap(category =>
+    category.words.filter(entry => (earned.get(entry.word) ?? category.difficulty) === room.difficulty))
+}
+
+// Words to hold back while fresh ones last.
+export interface WordHistory {
+  // Played or offered in this room, in this game or an earlier one.
+  usedInRoom: Set<string>
+  // Played in the current players' recent games in other rooms.
+  seenRecently: Set<string>
+}
+
+// Which held-back words had to be offered after all, worst first.
+export type WordReuse = 'this_room' | 'recent_games'
+
+export interface WordPick {
+  choices: WordEntry[]
+  reused: WordReuse | null
+}
+
+interface PickOptions {
+  history?: WordHistory
+  // Difficulties words have earned in play (see word-stats.ts).
+  earned?: Map<string, Difficulty>
+}
+
+const NO_HISTORY: WordHistory = { usedInRoom: new Set(), seenRecently: new Set() }
+
+export async function loadWordHistory(repo: Repository, room: GameRoom, playerIds: string[]): Promise<WordHistory> {
+  const usedInRoom = new Set<string>()
+  for (const stat of await repo.stats.listByRoom(room.id)) {
+    if (stat.word) usedInRoom.add(stat.word)
+    stat.wordChoices.forEach(word => usedInRoom.add(word))
+  }
+
+  const seenRecently = new Set<string>()
+  if (room.recentGamesToAvoid > 0) {
+    const roomIds = new Set<string>()
+    for (const userId of playerIds) {
+      const joined = await repo.players.listByUser(userId)
+      joined
+        .filter(player => player.roomId !== room.id)
+        .slice(0, room.recentGamesToAvoid)
+        .forEach(player => roomIds.add(player.roomId))
+    }
+    for (const roomId of roomIds) {
+      for (const stat of await repo.stats.listByRoom(roomId)) {
+        if (stat.word) seenRecently.add(stat.word)
+      }
+    }
+  }
+  return { usedInRoom, seenRecently }
+}
+
+/**
+ * Up to `count` different words for the drawer to choose from, in random order.
+ * Custom words replace the categories unless the host picked some, in which
+ * case each word comes from the custom list with odds of `customWordShare`.
+ * Words in `history` are offered only once fresh ones run out, and `reused`
+ * says so. With no words left at all, the built-in packs stand in.
+ */
+export async function pickWordChoices(
+  repo: Repository,
+  room: GameRoom,
+  count: number,
+  { history = NO_HISTORY, earned = new Map() }: PickOptions = {}
+): Promise<WordPick> {
+  const custom = room.customWords ?? []
+  let pool: WordEntry[] = []
+  if (custom.length === 0 || room.categoryIds.length > 0) {
+    try {
+      pool = await categoryWords(repo, room, earned)
+    } catch (error) {
+      console.error('Error getting word choices:', error)
+    }
+  }
+  if (custom.length === 0 && pool.length === 0) pool = defaultWordsFor(room.difficulty)
+
+  // 0 for fresh words, 1 for ones seen in recent games, 2 for ones used here.
+  const staleness = (entry: WordEntry) =>
+    history.usedInRoom.has(entry.word) ? 2 : history.seenRecently.has(entry.word) ? 1 : 0
+  // Words are taken from the end, so the freshest go last.
+  const freshestLast = (entries: WordEntry[]) => shuffle(entries).sort((a, b) => staleness(b) - staleness(a))
+  const nextStaleness = (entries: WordEntry[]) =>
+    entries.length > 0 ? staleness(entries[entries.length - 1]) : Infinity
+
+  const customLeft = freshestLast(custom)
+  const taken = new Set(custom.map(entry => entry.word))
+  const poolLeft = freshestLast(dedupeWords(pool).words.filter(entry => !taken.has(entry.word)))
+  const choices: WordEntry[] = []
+  while (choices.length < Math.max(1, count) && (customLeft.length > 0 || poolLeft.length > 0)) {
+    // The mix only decides between equally fresh words.
+    const customNext = nextStaleness(customLeft)
+    const poolNext = nextStaleness(poolLeft)
+    const fromCustom = customNext < poolNext || (customNext === poolNext && Math.random() < room.customWordShare)
+    choices.push((fromCustom ? customLeft : poolLeft).pop()!)
+  }
+
+  const worst = Math.max(0, ...choices.map(staleness))
+  return { choices, reused: worst === 2 ? 'this_room' : worst === 1 ? 'recent_games' : null }
+}
+
+// Words in order with repeats dropped. Returns how many were dropped too.
+export function dedupeWords(words: WordEntry[]): { words: WordEntry[]; removed: number } {
+  const unique = new Map<string, WordEntry>()
+  for (const entry of words) {
+    if (!unique.has(entry.word)) unique.set(entry.word, entry)
+  }
+  return { words: [...unique.values()], removed: words.length - unique.size }
+}
+
+// Packs with the same name and difficulty become one, keeping the first of any repeated word.
+export function mergePacks(packs: WordPack[]): WordPack[] {
+  const merged = new Map<string, WordPack>()
+  for (const wordPack of packs) {
+    const key = `${wordPack.difficulty}:${wordPack.name.trim().toLowerCase()}`
+    const existing = merged.get(key)
+    merged.set(key, existing
+      ? { ...existing, words: dedupeWords([...existing.words, ...wordPack.words]).words }
+      : { ...wordPack, name: wordPack.name.trim() })
+  }
+  return [...merged.values()]
+}
+
+export function formatForFileName(fileName: string): WordPackFormat {
+  const extension = fileName.toLowerCase().split('.').pop()
+  return extension === 'json' ? 'json' : extension === 'csv' ? 'csv' : 'text'
+}
+
+const toDifficulty = (value: unknown, fallback: Difficulty): Difficulty => {
+  const text = String(value ?? '').trim().toLowerCase()
+  return DIFFICULTIES.find(difficulty => difficulty === text) ?? fallback
+}
+
+// CSV as spreadsheets write it: quoted cells may hold commas, quotes ("") and new lines.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      rows.push([...row, cell])
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  rows.push([...row, cell])
+  return rows.filter(cells => cells.some(value => value.trim().length > 0))
+}
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+const CSV_HEADER = ['pack', 'difficulty', 'word', 'aliases']
+
+function packsFromCsv(text: string, fallback: WordPack): WordPack[] {
+  const rows = parseCsv(text)
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? []
+  const hasHeader = header.includes('word')
+  // Without a header, a single column is a plain list of words.
+  const columns = hasHeader
+    ? { pack: header.findIndex(cell => cell === 'pack' || cell === 'name' || cell === 'category'), difficulty: header.indexOf('difficulty'), word: header.indexOf('word'), aliases: header.indexOf('aliases') }
+    : rows.every(cells => cells.length === 1)
+      ? { pack: -1, difficulty: -1, word: 0, aliases: -1 }
+      : { pack: 0, difficulty: 1, word: 2, aliases: 3 }
+
+  const packs: WordPack[] = []
+  for (const cells of hasHeader ? rows.slice(1) : rows) {
+    // One entry per row, so a comma in a cell is part of the word.
+    const cell = (index: number) => (index >= 0 ? cells[index] ?? '' : '')
+    const entry = parseWordEntry([cell(columns.word), cell(columns.aliases)].filter(Boolean).join('|'))
+    if (!entry) continue
+    packs.push({
+      name: cell(columns.pack).trim() || fallback.name,
+      difficulty: toDifficulty(cell(columns.difficulty), fallback.difficulty),
+      words: [entry]
+    })
+  }
+  return packs
+}
+
+const toWordEntries = (value: unknown): WordEntry[] => {
+  if (typeof value === 'string') return parseWordList(value)
+  if (!Array.isArray(value)) return []
+  // Either "word | alias" strings or { word, aliases } objects, one entry each.
+  return value.flatMap((item): WordEntry[] => {
+    const text = typeof item === 'string'
+      ? item
+      : [item?.word, ...(Array.isArray(item?.aliases) ? item.aliases : [])].map(part => String(part ?? '')).join('|')
+    const entry = parseWordEntry(text)
+    return entry ? [entry] : []
+  })
+}
+
+function packsFromJson(text: string, fallback: WordPack): WordPack[] {
+  const parsed = JSON.parse(text)
+  const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.packs) ? parsed.packs : [parsed]
+  return items.map((item: any) => ({
+    name: typeof item?.name === 'string' && item.name.trim() ? item.name.trim() : fallback.name,
+    difficulty: toDifficulty(item?.difficulty, fallback.difficulty),
+    words: toWordEntries(item?.words)
+  }))
+}
+
+/**
+ * Reads packs from a file's text. Plain lists, and CSV or JSON without a pack
+ * name or difficulty, go into `fallback`. Throws when JSON doesn't parse.
+ */
+export function importWordPacks(text: string, format: WordPackFormat, fallback: WordPack): WordPack[] {
+  const packs = format === 'json'
+    ? packsFromJson(text, fallback)
+    : format === 'csv'
+      ? packsFromCsv(text, fallback)
+      : [{ ...fallback, words: parseWordList(text) }]
+  return mergePacks(packs).filter(wordPack => wordPack.words.length > 0)
+}
+
+export function exportWordPacks(packs: WordPack[], format: WordPackFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({
+        packs: packs.map(({ name, difficulty, words }) => ({ name, difficulty, words: words.map(formatWordEntry) }))
+      }, null, 2)
+    case 'csv':
+      return [
+        CSV_HEADER,
+        ...packs.flatMap(({ name, difficulty, words }) =>
+          words.map(entry => [name, difficulty, entry.word, entry.aliases.join(' | ')]))
+      ].map(cells => cells.map(csvCell).join(',')).join('\n')
+    case 'text':
+      return formatWordList(packs.flatMap(wordPack => wordPack.words), '\n')
+  }
+}
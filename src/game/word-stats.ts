@@ -0,0 +1,127 @@
+import type { Repository } from '../data/repository'
+import type { Difficulty, GameStat, ScoreEvent } from '../types/game'
+
+// A word needs this many rounds behind it before its numbers mean anything.
+export const MIN_ROUNDS = 3
+
+// Stats only look this far back, so reading them stays cheap however many
+// games have been played.
+export const RECENT_ROUNDS = 500
+
+// Guess rates at or above EASY_RATE make a word easy, below HARD_RATE hard.
+const EASY_RATE = 0.6
+const HARD_RATE = 0.3
+
+export interface WordStat {
+  word: string
+  rounds: number
+  // Share of everyone who could have guessed that did. Null without rounds
+  // that recorded how many could have.
+  guessRate: number | null
+  // Seconds from the start of drawing to a correct guess. Null with no timed guesses.
+  averageGuessSeconds: number | null
+  // Where the guess rate puts the word. Null until it has MIN_ROUNDS rounds.
+  difficulty: Difficulty | null
+  // Played MIN_ROUNDS times or more and never guessed once.
+  neverGuessed: boolean
+}
+
+const roundKey = ({ roomId, gameNumber, roundNumber }: { roomId: string; gameNumber: number; roundNumber: number }) =>
+  `${roomId}:${gameNumber}:${roundNumber}`
+
+export function bucketFor(guessRate: number): Difficulty {
+  return guessRate >= EASY_RATE ? 'easy' : guessRate < HARD_RATE ? 'hard' : 'medium'
+}
+
+interface WordTotal {
+  rounds: number
+  guessed: number
+  couldGuess: number
+  rated: number
+  seconds: number[]
+}
+
+// Running per-word totals, which rounds can be added to as they finish.
+export type WordTotals = Map<string, WordTotal>
+
+/**
+ * Adds rounds to `totals` and returns it. Rounds with score events are judged
+ * by them; older rounds fall back to their stored guessers.
+ */
+export function tallyRounds(rounds: GameStat[], events: ScoreEvent[], totals: WordTotals = new Map()): WordTotals {
+  const guessesByRound = new Map<string, ScoreEvent[]>()
+  for (const event of events) {
+    if (event.role !== 'guesser') continue
+    const key = roundKey(event)
+    guessesByRound.set(key, [...(guessesByRound.get(key) ?? []), event])
+  }
+
+  for (const round of rounds) {
+    // Rounds that were never revealed don't say anything about the word.
+    if (!round.word) continue
+    const guesses = guessesByRound.get(roundKey(round))
+    const guessed = guesses ? guesses.length : round.correctGuessers.length
+    const total = totals.get(round.word) ?? { rounds: 0, guessed: 0, couldGuess: 0, rated: 0, seconds: [] }
+    total.rounds += 1
+    total.guessed += guessed
+    if (round.possibleGuessers > 0) {
+      total.rated += Math.min(guessed, round.possibleGuessers)
+      total.couldGuess += round.possibleGuessers
+    }
+    if (round.startedAt && guesses) {
+      const startedAt = new Date(round.startedAt).getTime()
+      for (const guess of guesses) {
+        const seconds = (new Date(guess.createdAt).getTime() - startedAt) / 1000
+        if (seconds >= 0) total.seconds.push(seconds)
+      }
+    }
+    totals.set(round.word, total)
+  }
+  return totals
+}
+
+export function toWordStats(totals: WordTotals): WordStat[] {
+  return [...totals].map(([word, total]) => {
+    const guessRate = total.couldGuess > 0 ? total.rated / total.couldGuess : null
+    return {
+      word,
+      rounds: total.rounds,
+      guessRate,
+      averageGuessSeconds: total.seconds.length > 0
+        ? total.seconds.reduce((sum, seconds) => sum + seconds, 0) / total.seconds.length
+        : null,
+      difficulty: guessRate !== null && total.rounds >= MIN_ROUNDS ? bucketFor(guessRate) : null,
+      neverGuessed: total.rounds >= MIN_ROUNDS && total.guessed === 0
+    }
+  })
+}
+
+/**
+ * Totals over the last RECENT_ROUNDS rounds. Guesses are read from the start
+ * of the oldest of them on, which covers every guess in those rounds.
+ */
+export async function loadWordTotals(repo: Repository): Promise<WordTotals> {
+  const rounds = await repo.stats.listRecent(RECENT_ROUNDS)
+  const oldest = rounds.reduce<string | null>(
+    (earliest, round) => (round.startedAt && (!earliest || round.startedAt < earliest) ? round.startedAt : earliest),
+    null
+  )
+  const events = oldest ? await repo.scores.listSince(oldest) : []
+  return tallyRounds(rounds, events)
+}
+
+export const loadWordStats = async (repo: Repository) => toWordStats(await loadWordTotals(repo))
+
+// The difficulty each well-played word has earned, for re-bucketing word packs.
+export const earnedDifficulties = (stats: WordStat[]) =>
+  new Map(stats.flatMap(stat => (stat.difficulty ? [[stat.word, stat.difficulty] as const] : [])))
+
+// Most guessed first; ties go to the faster word, then the more played one.
+export function rankWords(stats: WordStat[]): WordStat[] {
+  return stats
+    .filter(stat => stat.guessRate !== null && stat.rounds >= MIN_ROUNDS)
+    .sort((a, b) =>
+      b.guessRate! - a.guessRate! ||
+      (a.averageGuessSeconds ?? Infinity) - (b.averageGuessSeconds ?? Infinity) ||
+      b.rounds - a.rounds)
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { checkWordList } from './word-validation'
+import { formatWordList, parseWordList } from './words'
+
+const words = (text: string) => checkWordList(text).entries.map(entry => entry.word)
+
+describe('word validation', () => {
+  it('splits entries at commas and new lines', () => {
+    expect(words('cat, dog\nice cream | icecream,,\n  sun  ')).toEqual(['cat', 'dog', 'ice cream', 'sun'])
+    expect(checkWordList('cat, dog').problems).toEqual([])
+  })
+
+  it('keeps a comma inside quotes', () => {
+    expect(words('"salt, pepper", bread')).toEqual(['salt, pepper', 'bread'])
+    expect(checkWordList('"fish, chips" | fish and chips').entries).toEqual([
+      { word: 'fish, chips', aliases: ['fish and chips'] }
+    ])
+  })
+
+  it('takes one word per line, with commas in them, when each line is quoted', () => {
+    expect(words('"salt, pepper"\n"bread, butter"')).toEqual(['salt, pepper', 'bread, butter'])
+  })
+
+  it('ends a quote left open at the end of the line', () => {
+    expect(words('"salt, pepper\nbread, jam')).toEqual(['salt, pepper', 'bread', 'jam'])
+  })
+
+  it('reads back a list written with commas in its words', () => {
+    const entries = parseWordList('"salt, pepper" | s and p, bread')
+    expect(formatWordList(entries)).toBe('"salt, pepper | s and p",bread')
+    expect(parseWordList(formatWordList(entries))).toEqual(entries)
+    expect(parseWordList(formatWordList(entries, '\n'))).toEqual(entries)
+  })
+
+  it('points each problem at its entry, quotes and all', () => {
+    const text = 'cat,\n"salt,, pepper", dog'
+    const { entries, problems } = checkWordList(text)
+    expect(entries.map(entry => entry.word)).toEqual(['cat', 'dog'])
+    expect(problems).toHaveLength(1)
+    expect(problems[0]).toMatchObject({ line: 2, text: '"salt,, pepper"' })
+    expect(text.slice(problems[0].start, problems[0].end)).toBe('"salt,, pepper"')
+    expect(problems[0].message).toContain('commas')
+  })
+
+  it('rejects symbols, long words, words without letters and blocked words', () => {
+    const { problems } = checkWordList(`cat!, 1234, ${'a'.repeat(31)}, shit, fine`)
+    expect(problems.map(problem => problem.text)).toEqual(['cat!', '1234', 'a'.repeat(31), 'shit'])
+    expect(words(`cat!, 1234, ${'a'.repeat(31)}, shit, fine`)).toEqual(['fine'])
+  })
+
+  it('reports answers that are already in the list', () => {
+    const { entries, problems } = checkWordList('ice cream, icecream, Ice-Cream | gelato, cake | icecream')
+    expect(entries.map(entry => entry.word)).toEqual(['ice cream'])
+    expect(problems.map(problem => problem.message)).toEqual([
+      '"icecream" is already in the list as "ice cream"',
+      '"ice-cream" is already in the list as "ice cream"',
+      '"icecream" is already in the list as "ice cream"'
+    ])
+  })
+})
@@ -0,0 +1,93 @@
+import type { WordEntry } from '../types/game'
+import { normalizeGuess } from './guess'
+import { parseWordEntry, splitWordList } from './words'
+
+export const MIN_CUSTOM_WORDS = 5
+export const MAX_WORD_LENGTH = 30
+
+// Letters in any script, digits, and spaces, hyphens, apostrophes or commas
+// between them, as in "salt, pepper".
+const ALLOWED = /^[\p{L}\p{N}]+(?:(?:[ '’-]|, ?)[\p{L}\p{N}]+)*$/u
+const HAS_LETTER = /\p{L}/u
+
+// Kept short on purpose: it catches the obvious, and hosts can still just not
+// play with people who work around it.
+const BLOCKED_WORDS = new Set([
+  'fuck', 'fucker', 'fucking', 'motherfucker', 'shit', 'bullshit', 'cunt', 'bitch', 'asshole',
+  'dick', 'cock', 'pussy', 'slut', 'whore', 'bastard', 'wanker', 'twat', 'prick'
+])
+
+export interface WordProblem {
+  // Where the entry sits in the text, for highlighting it.
+  start: number
+  end: number
+  line: number
+  text: string
+  message: string
+}
+
+export interface WordListCheck {
+  // Every valid entry, in order, without repeats.
+  entries: WordEntry[]
+  problems: WordProblem[]
+}
+
+// Answers that guessing treats as the same, e.g. "Ice-cream" and "icecream".
+const answerKey = (text: string) => normalizeGuess(text).replace(/ /g, '')
+
+const isBlocked = (text: string) =>
+  normalizeGuess(text).split(' ').some(token =>
+    BLOCKED_WORDS.has(token) || BLOCKED_WORDS.has(token.replace(/e?s$/, '')))
+
+function problemWith(answer: string): string | null {
+  if (answer.length > MAX_WORD_LENGTH) return `"${answer}" is longer than ${MAX_WORD_LENGTH} characters`
+  if (!ALLOWED.test(answer)) return `"${answer}" may only use letters, numbers, spaces, hyphens, apostrophes and commas`
+  if (!HAS_LETTER.test(answer)) return `"${answer}" needs at least one letter`
+  if (isBlocked(answer)) return `"${answer}" isn't allowed`
+  return null
+}
+
+/**
+ * Checks a custom word list as typed: entries separated by commas or new
+ * lines, each "word | alias | alias", and quoted to hold a comma. Every
+ * problem points back at its entry.
+ */
+export function checkWordList(text: string): WordListCheck {
+  const entries: WordEntry[] = []
+  const problems: WordProblem[] = []
+  // Every answer taken so far, pointing at the word it belongs to.
+  const taken = new Map<string, string>()
+
+  for (const part of splitWordList(text)) {
+    const entry = parseWordEntry(part.text)
+    if (!entry) continue
+    const written = text.slice(part.start, part.end)
+    const start = part.start + (written.length - written.trimStart().length)
+    const end = part.start + written.trimEnd().length
+    const report = (message: string) => problems.push({
+      start,
+      end,
+      line: text.slice(0, part.start).split('\n').length,
+      text: text.slice(start, end),
+      message
+    })
+
+    const answers = [entry.word, ...entry.aliases]
+    const invalid = answers.map(problemWith).find(message => message !== null)
+    if (invalid) {
+      report(invalid)
+      continue
+    }
+    const clash = answers.find(answer => taken.has(answerKey(answer)))
+    if (clash) {
+      const owner = taken.get(answerKey(clash))
+      report(owner === clash ? `"${clash}" is already in the list` : `"${clash}" is already in the list as "${owner}"`)
+      continue
+    }
+
+    answers.forEach(answer => taken.set(answerKey(answer), answer))
+    entries.push(entry)
+  }
+
+  return { entries, problems }
+}
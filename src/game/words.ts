@@ -0,0 +1,70 @@
+import type { WordEntry } from '../types/game'
+
+// "ice cream | icecream | sundae" -> { word: 'ice cream', aliases: ['icecream', 'sundae'] }
+export function parseWordEntry(text: string): WordEntry | null {
+  const [word, ...aliases] = text
+    .split('|')
+    .map(part => part.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean)
+  return word ? { word, aliases: [...new Set(aliases)].filter(alias => alias !== word) } : null
+}
+
+// A stored entry: { word, aliases } as saved, or "word | alias" text.
+export function toWordEntry(value: unknown): WordEntry | null {
+  if (typeof value === 'string') return parseWordEntry(value)
+  if (!value || typeof value !== 'object') return null
+  const { word, aliases } = value as Partial<WordEntry>
+  return parseWordEntry([word, ...(Array.isArray(aliases) ? aliases : [])].map(part => String(part ?? '')).join('|'))
+}
+
+export const formatWordEntry = (entry: WordEntry) => [entry.word, ...entry.aliases].join(' | ')
+
+export interface WordListPart {
+  // Where the entry sits in the list, with its quotes and spaces.
+  start: number
+  end: number
+  // The entry as written, without the quotes.
+  text: string
+}
+
+/**
+ * Splits a list into entries at commas and new lines. Quotes keep commas in an
+ * entry, as in "salt, pepper". A new line always ends the entry, so a quote
+ * left open can't take the rest of the list with it.
+ */
+export function splitWordList(text: string): WordListPart[] {
+  const parts: WordListPart[] = []
+  let start = 0
+  let entry = ''
+  let quoted = false
+  for (let i = 0; i <= text.length; i++) {
+    const char = text[i]
+    if (i === text.length || char === '\n' || (char === ',' && !quoted)) {
+      parts.push({ start, end: i, text: entry })
+      start = i + 1
+      entry = ''
+      quoted = false
+    } else if (char === '"') {
+      quoted = !quoted
+    } else {
+      entry += char
+    }
+  }
+  return parts
+}
+
+// A repeated word keeps its first entry.
+export function parseWordList(text: string): WordEntry[] {
+  const entries = new Map<string, WordEntry>()
+  for (const part of splitWordList(text)) {
+    const entry = parseWordEntry(part.text)
+    if (entry && !entries.has(entry.word)) entries.set(entry.word, entry)
+  }
+  return [...entries.values()]
+}
+
+const quoteWordEntry = (text: string) => (text.includes(',') ? `"${text}"` : text)
+
+// Entries with a comma in them are quoted, so the list reads back the same.
+export const formatWordList = (entries: WordEntry[], separator = ',') =>
+  entries.map(entry => quoteWordEntry(formatWordEntry(entry))).join(separator)
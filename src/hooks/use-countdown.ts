@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import { backend } from '../backend'
+
+const TICK_MS = 250
+
+const secondsUntil = (endsAt: string | null) =>
+  endsAt ? Math.max(0, Math.ceil((new Date(endsAt).getTime() - backend.clock.now()) / 1000)) : 0
+
+// Whole seconds left until a deadline in backend time. Ticking faster than once
+// a second keeps clients that loaded at different moments flipping together.
+export function useCountdown(endsAt: string | null) {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(endsAt))
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(endsAt))
+    if (!endsAt) return
+
+    const interval = setInterval(() => setSecondsLeft(secondsUntil(endsAt)), TICK_MS)
+    return () => clearInterval(interval)
+  }, [endsAt])
+
+  return secondsLeft
+}
@@ -0,0 +1,33 @@
+import { useCallback, useState } from 'react'
+
+const STORAGE_KEY = 'skribbl-recent-colors'
+const MAX_RECENT = 10
+
+const readRecent = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(stored) ? stored.filter((color): color is string => typeof color === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// The colors last drawn with, newest first, kept across games on this browser.
+export function useRecentColors() {
+  const [recent, setRecent] = useState(readRecent)
+
+  const addRecent = useCallback((color: string) => {
+    setRecent(previous => {
+      if (previous[0] === color) return previous
+      const next = [color, ...previous.filter(other => other !== color)].slice(0, MAX_RECENT)
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      } catch {
+        // Storage full or unavailable: they are only remembered until reload.
+      }
+      return next
+    })
+  }, [])
+
+  return { recent, addRecent }
+}
@@ -0,0 +1,68 @@
+// Drawing colors are "#rrggbb", or "#rrggbbaa" when they are see-through.
+
+export interface Rgba {
+  r: number
+  g: number
+  b: number
+  // 0 to 1
+  a: number
+}
+
+export interface Hsv {
+  // 0 to 360, then 0 to 1
+  h: number
+  s: number
+  v: number
+}
+
+const HEX_COLOR = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})?$/i
+
+export function parseHex(color: string): Rgba | null {
+  const match = HEX_COLOR.exec(color)
+  if (!match) return null
+  return {
+    r: parseInt(match[1], 16),
+    g: parseInt(match[2], 16),
+    b: parseInt(match[3], 16),
+    a: match[4] ? parseInt(match[4], 16) / 255 : 1
+  }
+}
+
+const hexByte = (value: number) => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0')
+
+// Leaves the alpha digits off fully opaque colors.
+export function toHex({ r, g, b, a }: Rgba): string {
+  const alpha = Math.round(Math.min(1, Math.max(0, a)) * 255)
+  return `#${hexByte(r)}${hexByte(g)}${hexByte(b)}${alpha === 255 ? '' : hexByte(alpha)}`
+}
+
+export const opacityOf = (color: string) => parseHex(color)?.a ?? 1
+
+// The same color drawn fully opaque.
+export const opaqueColor = (color: string) => color.slice(0, 7)
+
+export function withOpacity(color: string, opacity: number): string {
+  const rgba = parseHex(color)
+  return rgba ? toHex({ ...rgba, a: opacity }) : color
+}
+
+export function rgbToHsv({ r, g, b }: Rgba): Hsv {
+  const [red, green, blue] = [r / 255, g / 255, b / 255]
+  const max = Math.max(red, green, blue)
+  const range = max - Math.min(red, green, blue)
+  let h = 0
+  if (range > 0) {
+    if (max === red) h = ((green - blue) / range) % 6
+    else if (max === green) h = (blue - red) / range + 2
+    else h = (red - green) / range + 4
+  }
+  return { h: (h * 60 + 360) % 360, s: max === 0 ? 0 : range / max, v: max }
+}
+
+export function hsvToRgb({ h, s, v }: Hsv): Rgba {
+  const channel = (n: number) => {
+    const k = (n + h / 60) % 6
+    return Math.round((v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255)
+  }
+  return { r: channel(5), g: channel(3), b: channel(1), a: 1 }
+}
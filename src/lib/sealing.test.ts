@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { createSealingKeys, exportSealingKey, seal, unseal } from './sealing'
+
+describe('sealing', () => {
+  it('opens with the private key it was sealed for', async () => {
+    const keys = await createSealingKeys()
+    const sealed = await seal(await exportSealingKey(keys.publicKey), { text: 'apple' })
+    expect(await unseal(keys.privateKey, sealed)).toEqual({ text: 'apple' })
+  })
+
+  it('never shows the value, even when sealed twice', async () => {
+    const publicKey = await exportSealingKey((await createSealingKeys()).publicKey)
+    const [first, second] = await Promise.all([seal(publicKey, 'apple'), seal(publicKey, 'apple')])
+    expect(JSON.stringify(first)).not.toContain('apple')
+    expect(first.data).not.toBe(second.data)
+  })
+
+  it('does not open with another key', async () => {
+    const [keys, other] = await Promise.all([createSealingKeys(), createSealingKeys()])
+    const sealed = await seal(await exportSealingKey(keys.publicKey), 'apple')
+    await expect(unseal(other.privateKey, sealed)).rejects.toThrow()
+  })
+})
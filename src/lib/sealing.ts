@@ -0,0 +1,44 @@
+// Public-key sealing with WebCrypto. Anyone with the public key can seal a
+// value, and only the holder of the private key can open it again. Each seal
+// uses a fresh ECDH key, so two seals of the same value look unrelated.
+
+const CURVE: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' }
+const CIPHER = 'AES-GCM'
+
+export interface Sealed {
+  // The sender's one-off public key, as a JWK.
+  key: JsonWebKey
+  iv: string
+  data: string
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0))
+
+export const createSealingKeys = () =>
+  crypto.subtle.generateKey(CURVE, false, ['deriveKey']) as Promise<CryptoKeyPair>
+
+export const exportSealingKey = (publicKey: CryptoKey) => crypto.subtle.exportKey('jwk', publicKey)
+
+const sharedKey = (privateKey: CryptoKey, publicKey: CryptoKey, usage: KeyUsage) =>
+  crypto.subtle.deriveKey({ name: 'ECDH', public: publicKey }, privateKey, { name: CIPHER, length: 256 }, false, [usage])
+
+export async function seal(publicKey: JsonWebKey, value: unknown): Promise<Sealed> {
+  const recipient = await crypto.subtle.importKey('jwk', publicKey, CURVE, false, [])
+  const own = await createSealingKeys()
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const plain = new TextEncoder().encode(JSON.stringify(value))
+  const data = await crypto.subtle.encrypt({ name: CIPHER, iv }, await sharedKey(own.privateKey, recipient, 'encrypt'), plain)
+  return { key: await exportSealingKey(own.publicKey), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+// Throws when `sealed` wasn't made for this key or was tampered with.
+export async function unseal<T>(privateKey: CryptoKey, sealed: Sealed): Promise<T> {
+  const sender = await crypto.subtle.importKey('jwk', sealed.key, CURVE, false, [])
+  const plain = await crypto.subtle.decrypt(
+    { name: CIPHER, iv: fromBase64(sealed.iv) },
+    await sharedKey(privateKey, sender, 'decrypt'),
+    fromBase64(sealed.data)
+  )
+  return JSON.parse(new TextDecoder().decode(plain))
+}
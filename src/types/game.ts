@@ -0,0 +1,223 @@
+// Canonical shapes for every record the game stores. Rows written by older
+// builds use different column names; src/data/mappers.ts folds them into these.
+
+export type GameState = 'waiting' | 'playing' | 'finished'
+
+export type GamePhase = 'lobby' | 'choosing_word' | 'drawing' | 'reveal' | 'intermission' | 'finished'
+
+export type Difficulty = 'easy' | 'medium' | 'hard'
+
+export type Team = 'red' | 'blue'
+
+// What closes a round before its timer does.
+export type RoundEndMode = 'first_guess' | 'all_guessed' | 'timer'
+
+// Per-room scoring rules, applied by src/game/scoring.ts.
+export interface ScoringRules {
+  // Every correct guess is worth at least this much.
+  guessBase: number
+  // Extra for guessing at the very start of the round, falling to 0 at the deadline.
+  timeBonus: number
+  // Extra for the 1st, 2nd, ... correct guesser; later guessers get none.
+  orderBonus: number[]
+  // What the drawer earns for each player who guessed their word.
+  drawerPerGuess: number
+  // Extra for the drawer when every guesser got the word.
+  drawerAllGuessedBonus: number
+  // In team mode, the drawer only earns for guessers on their own team.
+  drawerTeamOnly: boolean
+}
+
+// One player's points for one round and how they were made up.
+export interface ScoreLine {
+  userId: string
+  role: 'guesser' | 'drawer'
+  team: Team | null
+  points: number
+  parts: { label: string; points: number }[]
+}
+
+export interface GameRoom {
+  id: string
+  roomCode: string
+  hostUserId: string
+  // Counts the games started in the room, so rounds of one game can be told
+  // apart from the same rounds of the next. 0 until the first game starts.
+  gameNumber: number
+  currentRound: number
+  maxRounds: number
+  roundTime: number
+  currentDrawerId: string | null
+  // Guessers only ever see the masked word; the word itself stays with the
+  // room authority and the drawer until it is revealed at the end of the round.
+  wordMask: string | null
+  lastWord: string | null
+  gameState: GameState
+  phase: GamePhase
+  roundStartTime: string | null
+  // When the current phase ends, in backend time (see BackendClock). Null for
+  // phases that wait on players rather than on the clock.
+  phaseEndsAt: string | null
+  difficulty: Difficulty
+  // Word categories the host picked. None means every category of `difficulty`.
+  categoryIds: string[]
+  // The host's own words. Used instead of the categories unless some were
+  // picked, in which case the two are mixed.
+  customWords: WordEntry[] | null
+  // Share of offered words that come from customWords when mixing, from 0 to 1.
+  customWordShare: number
+  // Words from each player's last this-many games elsewhere are offered only
+  // once fresh ones run out. 0 turns it off.
+  recentGamesToAvoid: number
+  teamMode: boolean
+  roundEndMode: RoundEndMode
+  // Whether "cats" counts for "cat". Only the plural of the answer is accepted,
+  // so "cat" never counts for "cats".
+  acceptPlurals: boolean
+  // How many words the drawer picks from; 1 means the word is picked for them.
+  wordChoiceCount: number
+  // When a hint letter is revealed, as fractions of the round time, e.g.
+  // [0.5, 0.75] for one letter halfway through and another at three quarters.
+  hintSchedule: number[]
+  scoring: ScoringRules
+  // Which client tab runs the room authority, and until when in backend time
+  // unless it renews. Unused when the backend runs the authority itself.
+  authorityId: string | null
+  authorityLeaseUntil: string | null
+  // The public key guesses are sealed for, as a JWK in JSON, set by the
+  // client running the authority. Only that client can open them.
+  guessKey: string | null
+  createdAt: string
+}
+
+export interface RoomPlayer {
+  id: string
+  roomId: string
+  userId: string
+  displayName: string
+  // The stored score plus every ScoreEvent the player has earned in the room.
+  score: number
+  isReady: boolean
+  isDrawing: boolean
+  team: Team | null
+  joinedAt: string
+  // Set when they leave and cleared when they come back. Once it is
+  // LEAVE_GRACE_MS old they are out of the game.
+  leftAt: string | null
+}
+
+export interface GameMessage {
+  id: string
+  roomId: string
+  userId: string
+  displayName: string
+  message: string
+  isGuess: boolean
+  isCorrect: boolean
+  // Sent by the drawer or someone who had already guessed. Only they see it
+  // while the round is on; everyone does once it is over.
+  guessedOnly: boolean
+  createdAt: string
+}
+
+export interface DrawingStroke {
+  id: string
+  roomId: string
+  roundNumber: number
+  strokeData: string
+  createdAt: string
+}
+
+export interface StrokePoint {
+  x: number
+  y: number
+  // Stylus pressure from 0 to 1. Left out for mice and fingers, which draw at the set size.
+  pressure?: number
+}
+
+export interface StrokeStyle {
+  color: string
+  size: number
+  isEraser: boolean
+}
+
+// A freehand line, drawn with the brush or the eraser.
+export interface StrokeData extends StrokeStyle {
+  kind: 'stroke'
+  points: StrokePoint[]
+}
+
+// The bucket tool: fills the area around (x, y) that is within `tolerance`
+// of the color there.
+export interface FillData {
+  kind: 'fill'
+  x: number
+  y: number
+  color: string
+  tolerance: number
+}
+
+export type ShapeKind = 'line' | 'rectangle' | 'ellipse'
+
+// A shape dragged out from one corner of its box to the other. Lines are
+// never filled.
+export interface ShapeData {
+  kind: 'shape'
+  shape: ShapeKind
+  from: StrokePoint
+  to: StrokePoint
+  color: string
+  size: number
+  filled: boolean
+}
+
+// One entry in a round's drawing log. A DrawingStroke's strokeData holds one,
+// encoded with game/stroke-codec.
+export type CanvasOperation = StrokeData | FillData | ShapeData
+
+// Points are only ever appended, at most one event per player, round and role,
+// so two guesses landing at once can't overwrite each other. Totals are sums.
+export interface ScoreEvent extends ScoreLine {
+  id: string
+  roomId: string
+  gameNumber: number
+  roundNumber: number
+  // Position among the round's correct guessers; 0 for the drawer.
+  guessOrder: number
+  createdAt: string
+}
+
+export interface GameStat {
+  id: string
+  roomId: string
+  gameNumber: number
+  roundNumber: number
+  drawerId: string
+  word: string
+  // The words the drawer was offered. Like `word`, empty until the reveal.
+  wordChoices: string[]
+  // The drawer didn't choose in time, so the word was picked for them.
+  autoPicked: boolean
+  // When drawing started and how many players could have guessed. Null and 0
+  // on rounds recorded before they were kept.
+  startedAt: string | null
+  possibleGuessers: number
+  // Both derived from the round's score events when it has any.
+  correctGuessers: string[]
+  breakdown: ScoreLine[]
+}
+
+// A word to draw plus other answers accepted for it. Written as text it is
+// "word | alias | alias", and lists of entries are separated by commas, with
+// quotes around an entry that has a comma of its own.
+export interface WordEntry {
+  word: string
+  aliases: string[]
+}
+
+export interface WordCategory {
+  id: string
+  name: string
+  difficulty: Difficulty
+  words: WordEntry[]
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GAME_BACKEND?: 'blink' | 'memory' | 'ws'
+  readonly VITE_ROOM_SERVER_URL?: string
+}